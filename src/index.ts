@@ -3,6 +3,7 @@ import readline from "readline";
 import dotenv from "dotenv"; 
 import gradient from "gradient-string";
 import { choiceinit, menutext, creatorname, setlang, t } from "./utils/func";
+import { setPassphraseProvider } from "./src/index";
 import transjson from './utils/translations.json';
 dotenv.config();
 
@@ -42,6 +43,10 @@ client.on("ready", async () => {
     console.log(gradient(["red", "orange"])(t('nosvr')));
     process.exit(1);
   }
+  // Encrypted backups ask for their passphrase here when BACKUP_PASSPHRASE is not set
+  setPassphraseProvider((confirm) => new Promise((resolve) => {
+    rl.question(gradient(["purple", "pink"])(t(confirm ? 'passphraseconfirm' : 'passphraseinput')), (input) => resolve(input.trim()));
+  }));
   menutext(client);
   choiceinit(client);
   const r = new Discord.RichPresence()
@@ -0,0 +1,196 @@
+import type { BackupData } from './types';
+
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+
+/**
+ * A backup archive is a gzipped tar holding the backup as `backup.json` and every image it
+ * uses in `assets/`, named by the SHA-256 of its content. The same image is stored once
+ * however many times the backup uses it.
+ */
+const MANIFEST = 'backup.json';
+const ASSETS_FOLDER = 'assets/';
+
+/** In the manifest, an image field holds this prefix and the hash of its asset instead of the base64 */
+const ASSET_PREFIX = 'asset:';
+
+const BLOCK_SIZE = 512;
+
+interface ArchiveEntry {
+    name: string;
+    data: Buffer;
+}
+
+/* ===========================
+   TAR
+=========================== */
+
+const writeField = (header: Buffer, value: string, offset: number, length: number) => {
+    header.write(value.slice(0, length), offset, length, 'utf-8');
+};
+
+const writeOctal = (header: Buffer, value: number, offset: number, length: number) => {
+    writeField(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+};
+
+const readField = (header: Buffer, offset: number, length: number) => {
+    const end = header.indexOf(0, offset);
+    return header.toString('utf-8', offset, end === -1 || end > offset + length ? offset + length : end);
+};
+
+// The checksum is computed with its own field filled with spaces
+const getChecksum = (header: Buffer) => {
+    let sum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+    return sum;
+};
+
+/**
+ * Writes the entries as a ustar archive
+ */
+function writeTar(entries: ArchiveEntry[]): Buffer {
+    const blocks: Buffer[] = [];
+
+    for (const entry of entries) {
+        const header = Buffer.alloc(BLOCK_SIZE);
+        writeField(header, entry.name, 0, 100);
+        writeOctal(header, 0o644, 100, 8);
+        writeOctal(header, 0, 108, 8);
+        writeOctal(header, 0, 116, 8);
+        writeOctal(header, entry.data.length, 124, 12);
+        writeOctal(header, Math.floor(Date.now() / 1000), 136, 12);
+        writeField(header, '0', 156, 1);
+        writeField(header, 'ustar\0', 257, 6);
+        writeField(header, '00', 263, 2);
+        writeField(header, getChecksum(header).toString(8).padStart(6, '0') + '\0 ', 148, 8);
+
+        blocks.push(header, entry.data);
+        const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+        if (padding) blocks.push(Buffer.alloc(padding));
+    }
+
+    // The archive ends with two empty blocks
+    blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+    return Buffer.concat(blocks);
+}
+
+/**
+ * Reads the regular files of a ustar archive
+ * @returns {Map<string, Buffer>} The content of every file, keyed by its name
+ */
+function readTar(archive: Buffer): Map<string, Buffer> {
+    const files = new Map<string, Buffer>();
+    let offset = 0;
+
+    while (offset + BLOCK_SIZE <= archive.length) {
+        const header = archive.subarray(offset, offset + BLOCK_SIZE);
+        if (header.every((byte) => byte === 0)) break;
+
+        if (parseInt(readField(header, 148, 8), 8) !== getChecksum(header)) {
+            throw new Error(`The archive is corrupted at byte ${offset}`);
+        }
+
+        const name = readField(header, 0, 100);
+        const size = parseInt(readField(header, 124, 12), 8);
+        const type = readField(header, 156, 1);
+        const start = offset + BLOCK_SIZE;
+        if (start + size > archive.length) throw new Error(`The archive is truncated in ${name}`);
+
+        if (type === '' || type === '0') files.set(name, archive.subarray(start, start + size));
+        offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+    }
+
+    return files;
+}
+
+/* ===========================
+   IMAGES
+=========================== */
+
+/**
+ * Replaces every inline image of a parsed backup with what fn returns for it.
+ * Works on backups of any schema version, so it can run before the migrations.
+ */
+const mapImages = (backup: any, fn: (value: string) => string) => {
+    const map = (owner: any, key: string) => {
+        if (owner && typeof owner[key] === 'string') owner[key] = fn(owner[key]);
+    };
+    // Message attachments hold either the CDN URL or the base64 of the file
+    const mapMessages = (messages: any[]) => {
+        for (const message of messages ?? []) {
+            for (const file of message.files ?? []) {
+                if (typeof file.attachment === 'string' && !/^https?:\/\//.test(file.attachment)) {
+                    map(file, 'attachment');
+                }
+            }
+        }
+    };
+
+    for (const key of ['iconBase64', 'splashBase64', 'bannerBase64', 'discoverySplashBase64']) map(backup, key);
+    for (const emoji of backup.emojis ?? []) map(emoji, 'base64');
+    for (const sticker of backup.stickers ?? []) map(sticker, 'base64');
+
+    const channels = [
+        ...(backup.channels?.categories ?? []).flatMap((category: any) => category.children ?? []),
+        ...(backup.channels?.others ?? [])
+    ];
+    for (const channel of channels) {
+        mapMessages(channel.messages);
+        for (const thread of channel.threads ?? []) mapMessages(thread.messages);
+    }
+};
+
+const hashAsset = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+/* ===========================
+   ARCHIVE
+=========================== */
+
+/**
+ * Packs a backup and the images it holds inline into an archive
+ * @param {BackupData} backupData The backup, with its images as base64
+ * @param {boolean} beautify Whether the manifest is indented
+ * @returns {Buffer} The gzipped archive
+ */
+export function packArchive(backupData: BackupData, beautify = false): Buffer {
+    const manifest = JSON.parse(JSON.stringify(backupData));
+    const assets = new Map<string, Buffer>();
+
+    mapImages(manifest, (base64) => {
+        const data = Buffer.from(base64, 'base64');
+        const hash = hashAsset(data);
+        assets.set(hash, data);
+        return ASSET_PREFIX + hash;
+    });
+
+    const entries: ArchiveEntry[] = [
+        { name: MANIFEST, data: Buffer.from(JSON.stringify(manifest, null, beautify ? 4 : undefined), 'utf-8') },
+        ...[...assets].map(([hash, data]) => ({ name: ASSETS_FOLDER + hash, data }))
+    ];
+    return gzipSync(writeTar(entries));
+}
+
+/**
+ * Reads an archive written by packArchive and puts its images back inline
+ * @param {Buffer} archive The gzipped archive
+ * @returns {any} The parsed backup, not migrated yet
+ */
+export function unpackArchive(archive: Buffer): any {
+    const files = readTar(gunzipSync(archive));
+
+    const manifest = files.get(MANIFEST);
+    if (!manifest) throw new Error(`The archive has no ${MANIFEST}`);
+    const backup = JSON.parse(manifest.toString('utf-8'));
+
+    mapImages(backup, (value) => {
+        if (!value.startsWith(ASSET_PREFIX)) return value;
+
+        const hash = value.slice(ASSET_PREFIX.length);
+        const data = files.get(ASSETS_FOLDER + hash);
+        if (!data) throw new Error(`The asset ${hash} is missing from the archive`);
+        if (hashAsset(data) !== hash) throw new Error(`The asset ${hash} is corrupted`);
+        return data.toString('base64');
+    });
+
+    return backup;
+}
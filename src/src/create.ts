@@ -1,16 +1,34 @@
 import type {
+    BackupData,
     BanData,
     CategoryData,
     ChannelsData,
     CreateOptions,
     EmojiData,
+    GuildChannelData,
     RoleData,
-    TextChannelData,
-    VoiceChannelData
+    StickerData
 } from './types';
-import type { CategoryChannel, Collection, Guild, GuildChannel, Snowflake, TextChannel, ThreadChannel, VoiceChannel } from 'discord.js-selfbot-v13';
+import type {
+    CategoryChannel,
+    Collection,
+    ForumChannel,
+    Guild,
+    GuildChannel,
+    Snowflake,
+    StageChannel,
+    TextChannel,
+    ThreadChannel,
+    VoiceChannel
+} from 'discord.js-selfbot-v13';
 import nodeFetch from 'node-fetch';
-import { fetchChannelPermissions, fetchTextChannelData, fetchVoiceChannelData } from './util';
+import {
+    fetchChannelPermissions,
+    fetchForumChannelData,
+    fetchStageChannelData,
+    fetchTextChannelData,
+    fetchVoiceChannelData
+} from './util';
 
 /**
  * Returns an array with the banned members of the guild
@@ -41,6 +59,7 @@ export async function getRoles(guild: Guild) {
         .sort((a, b) => b.position - a.position)
         .forEach((role) => {
             const roleData = {
+                id: role.id,
                 name: role.name,
                 color: role.hexColor,
                 hoist: role.hoist,
@@ -62,9 +81,13 @@ export async function getRoles(guild: Guild) {
  */
 export async function getEmojis(guild: Guild, options: CreateOptions) {
     const emojis: EmojiData[] = [];
-    guild.emojis.cache.forEach(async (emoji) => {
+    // Oldest first, so the restored emojis are listed in the same order
+    const sorted = [...guild.emojis.cache.values()].sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+    for (const emoji of sorted) {
         const eData: EmojiData = {
-            name: emoji.name
+            name: emoji.name,
+            animated: emoji.animated,
+            roles: emoji.roles.cache.map((role) => ({ roleId: role.id, roleName: role.name }))
         };
         if (options.saveImages && options.saveImages === 'base64') {
             eData.base64 = (await nodeFetch(emoji.url).then((res) => res.buffer())).toString('base64');
@@ -72,10 +95,87 @@ export async function getEmojis(guild: Guild, options: CreateOptions) {
             eData.url = emoji.url;
         }
         emojis.push(eData);
-    });
+    }
     return emojis;
 }
 
+/**
+ * Returns the banner, invite splash and discovery splash of the guild
+ * @param {Guild} guild The discord guild
+ * @param {CreateOptions} options The backup options
+ * @returns {Promise<Partial<BackupData>>} The URL of every image the guild has, and its base64 when asked
+ */
+export async function getGuildImages(guild: Guild, options: CreateOptions) {
+    const images: Partial<BackupData> = {};
+    const save = async (url: string | null, setImage: (url: string, base64?: string) => void) => {
+        if (!url) return;
+        const base64 = options.saveImages === 'base64'
+            ? (await nodeFetch(url).then((res) => res.buffer())).toString('base64')
+            : undefined;
+        setImage(url, base64);
+    };
+
+    await save(guild.bannerURL({ size: 4096 }), (url, base64) => {
+        images.bannerURL = url;
+        images.bannerBase64 = base64;
+    });
+    await save(guild.splashURL({ size: 4096 }), (url, base64) => {
+        images.splashURL = url;
+        images.splashBase64 = base64;
+    });
+    await save(guild.discoverySplashURL({ size: 4096 }), (url, base64) => {
+        images.discoverySplashURL = url;
+        images.discoverySplashBase64 = base64;
+    });
+
+    return images;
+}
+
+/**
+ * Returns an array with the stickers of the guild
+ * @param {Guild} guild The discord guild
+ * @param {CreateOptions} options The backup options
+ * @returns {Promise<StickerData[]>} The stickers of the guild
+ */
+export async function getStickers(guild: Guild, options: CreateOptions) {
+    const stickers: StickerData[] = [];
+    const fetched = await guild.stickers.fetch().catch(() => guild.stickers.cache);
+    for (const sticker of fetched.values()) {
+        const stickerData: StickerData = {
+            name: sticker.name,
+            description: sticker.description,
+            tags: sticker.tags?.join(', ') ?? '',
+            format: sticker.format
+        };
+        if (options.saveImages && options.saveImages === 'base64') {
+            stickerData.base64 = (await nodeFetch(sticker.url).then((res) => res.buffer())).toString('base64');
+        } else {
+            stickerData.url = sticker.url;
+        }
+        stickers.push(stickerData);
+    }
+    return stickers;
+}
+
+/**
+ * Fetches the data of one channel with the fetcher of its type
+ * @param {GuildChannel} channel The discord channel
+ * @param {CreateOptions} options The backup options
+ * @returns {Promise<GuildChannelData>} The channel data
+ */
+async function fetchChannelData(channel: GuildChannel, options: CreateOptions): Promise<GuildChannelData> {
+    if (channel.type === 'GUILD_TEXT' || channel.type === 'GUILD_NEWS') {
+        return fetchTextChannelData(channel as TextChannel, options);
+    }
+    if (channel.type === 'GUILD_FORUM') {
+        return fetchForumChannelData(channel as ForumChannel, options);
+    }
+    if (channel.type === 'GUILD_STAGE_VOICE') {
+        return fetchStageChannelData(channel as StageChannel);
+    }
+    return fetchVoiceChannelData(channel as VoiceChannel);
+}
+
 /**
  * Returns an array with the channels of the guild
  * @param {Guild} guild The discord guild
@@ -103,13 +203,8 @@ export async function getChannels(guild: Guild, options: CreateOptions) {
             const children = category.children.sort((a, b) => a.position - b.position).toJSON();
             for (const child of children) {
                 // For each child channel
-                if (child.type === 'GUILD_TEXT'|| child.type === 'GUILD_NEWS') {
-                    const channelData: TextChannelData = await fetchTextChannelData(child as TextChannel, options); // Gets the channel data
-                    categoryData.children.push(channelData); // And then push the child in the categoryData
-                } else {
-                    const channelData: VoiceChannelData = await fetchVoiceChannelData(child as VoiceChannel); // Gets the channel data
-                    categoryData.children.push(channelData); // And then push the child in the categoryData
-                }
+                const channelData = await fetchChannelData(child, options); // Gets the channel data
+                categoryData.children.push(channelData); // And then push the child in the categoryData
             }
             channels.categories.push(categoryData); // Update channels object
         }
@@ -124,13 +219,8 @@ export async function getChannels(guild: Guild, options: CreateOptions) {
             .toJSON();
         for (const channel of others) {
             // For each channel
-            if (channel.type === 'GUILD_TEXT' || channel.type === 'GUILD_NEWS') {
-                const channelData: TextChannelData = await fetchTextChannelData(channel as TextChannel, options); // Gets the channel data
-                channels.others.push(channelData); // Update channels object
-            } else {
-                const channelData: VoiceChannelData = await fetchVoiceChannelData(channel as VoiceChannel); // Gets the channel data
-                channels.others.push(channelData); // Update channels object
-            }
+            const channelData = await fetchChannelData(channel, options); // Gets the channel data
+            channels.others.push(channelData); // Update channels object
         }
         resolve(channels); // Returns the list of the channels
     });
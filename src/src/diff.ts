@@ -0,0 +1,402 @@
+import type {
+    BackupData,
+    BackupDiff,
+    ChannelPermissionsData,
+    DiffChange,
+    DiffChangeType,
+    DiffSeverity,
+    GuildChannelData,
+    GuildDrift,
+    PermissionNamesChange,
+    RoleData
+} from './types';
+import type { Snowflake } from 'discord.js-selfbot-v13';
+import { Permissions } from 'discord.js-selfbot-v13';
+
+interface Pairing<T> {
+    pairs: [T, T][];
+    added: T[];
+    removed: T[];
+}
+
+/**
+ * Pairs the items of two lists by the first key that matches. Keys are tried in order, so an ID
+ * is preferred over a name, and items without a key are left for the next one.
+ * Items sharing a key are paired in order.
+ */
+function pairItems<T>(before: T[], after: T[], keys: ((item: T) => string | undefined)[]): Pairing<T> {
+    const pairs: [T, T][] = [];
+    let removed = [...before];
+    let added = [...after];
+
+    for (const key of keys) {
+        const queues = new Map<string, T[]>();
+        for (const item of removed) {
+            const value = key(item);
+            if (value !== undefined) queues.set(value, [...(queues.get(value) ?? []), item]);
+        }
+
+        const paired = new Set<T>();
+        added = added.filter((item) => {
+            const value = key(item);
+            const match = value !== undefined ? queues.get(value)?.shift() : undefined;
+            if (!match) return true;
+            pairs.push([match, item]);
+            paired.add(match);
+            return false;
+        });
+        removed = removed.filter((item) => !paired.has(item));
+    }
+
+    return { pairs, added, removed };
+}
+
+/**
+ * Returns the names of the permissions a bitfield gained and lost
+ */
+const diffPermissions = (before: string, after: string): PermissionNamesChange => {
+    const beforeNames = new Permissions(BigInt(before)).toArray();
+    const afterNames = new Permissions(BigInt(after)).toArray();
+    return {
+        added: afterNames.filter((name) => !beforeNames.includes(name)),
+        removed: beforeNames.filter((name) => !afterNames.includes(name))
+    };
+};
+
+const hasPermissionChanges = (change: PermissionNamesChange) => change.added.length + change.removed.length > 0;
+
+type Value = string | number | boolean | null | undefined;
+
+/**
+ * Adds a change for every field whose value differs
+ */
+const diffFields = (
+    changes: DiffChange[],
+    entity: DiffChange['entity'],
+    name: string,
+    fields: Record<string, [Value, Value]>
+) => {
+    for (const [field, [before, after]] of Object.entries(fields)) {
+        if ((before ?? null) === (after ?? null)) continue;
+        changes.push({ entity, type: 'changed', name, field, before: before ?? null, after: after ?? null });
+    }
+};
+
+/* ===========================
+   ROLES
+=========================== */
+
+const diffRoles = (before: RoleData[], after: RoleData[], changes: DiffChange[]) => {
+    const { pairs, added, removed } = pairItems(before, after, [
+        (role) => (role.isEveryone ? '@everyone' : undefined),
+        (role) => role.id,
+        (role) => role.name
+    ]);
+
+    for (const role of added) {
+        changes.push({
+            entity: 'role',
+            type: 'added',
+            name: role.name,
+            permissions: diffPermissions('0', role.permissions)
+        });
+    }
+    for (const role of removed) {
+        changes.push({ entity: 'role', type: 'removed', name: role.name });
+    }
+
+    for (const [oldRole, newRole] of pairs) {
+        if (oldRole.name !== newRole.name) {
+            changes.push({ entity: 'role', type: 'renamed', name: newRole.name, before: oldRole.name, after: newRole.name });
+        }
+
+        const permissions = diffPermissions(oldRole.permissions, newRole.permissions);
+        if (hasPermissionChanges(permissions)) {
+            changes.push({ entity: 'role', type: 'changed', name: newRole.name, field: 'permissions', permissions });
+        }
+
+        diffFields(changes, 'role', newRole.name, {
+            color: [oldRole.color, newRole.color],
+            hoist: [oldRole.hoist, newRole.hoist],
+            mentionable: [oldRole.mentionable, newRole.mentionable]
+        });
+    }
+};
+
+/* ===========================
+   OVERWRITES
+=========================== */
+
+const overwriteName = (overwrite: ChannelPermissionsData) =>
+    overwrite.type === 'member' ? overwrite.username ?? overwrite.userId : overwrite.roleName;
+
+const diffOverwrites = (
+    target: string,
+    before: ChannelPermissionsData[],
+    after: ChannelPermissionsData[],
+    changes: DiffChange[]
+) => {
+    const { pairs, added, removed } = pairItems(before, after, [
+        (overwrite) => (overwrite.type === 'member' ? `member:${overwrite.userId}` : undefined),
+        (overwrite) => (overwrite.type === 'role' && overwrite.roleId ? `role:${overwrite.roleId}` : undefined),
+        (overwrite) => (overwrite.type === 'role' ? `role name:${overwrite.roleName}` : undefined)
+    ]);
+
+    // A missing overwrite is compared as one that allows and denies nothing
+    const compare = (
+        type: DiffChangeType,
+        oldOverwrite: ChannelPermissionsData | null,
+        newOverwrite: ChannelPermissionsData | null
+    ) => {
+        const allow = diffPermissions(oldOverwrite?.allow ?? '0', newOverwrite?.allow ?? '0');
+        const deny = diffPermissions(oldOverwrite?.deny ?? '0', newOverwrite?.deny ?? '0');
+        if (type === 'changed' && !hasPermissionChanges(allow) && !hasPermissionChanges(deny)) return;
+        changes.push({
+            entity: 'overwrite',
+            type,
+            name: overwriteName(newOverwrite ?? oldOverwrite),
+            target,
+            allow,
+            deny
+        });
+    };
+
+    for (const overwrite of added) compare('added', null, overwrite);
+    for (const overwrite of removed) compare('removed', overwrite, null);
+    for (const [oldOverwrite, newOverwrite] of pairs) compare('changed', oldOverwrite, newOverwrite);
+};
+
+/* ===========================
+   CHANNELS
+=========================== */
+
+interface LocatedChannel {
+    channel: GuildChannelData;
+    /** Name of the category of the channel, null when it has none */
+    category: string | null;
+}
+
+const locateChannels = (backup: BackupData): LocatedChannel[] => [
+    ...backup.channels.categories.flatMap((category) =>
+        category.children.map((channel) => ({ channel, category: category.name }))
+    ),
+    ...backup.channels.others.map((channel): LocatedChannel => ({ channel, category: null }))
+];
+
+// Voice channels have no topic, and neither voice nor stage channels have a NSFW flag in the backup
+const getTopic = (channel: GuildChannelData) => ('topic' in channel ? channel.topic : undefined);
+const getNsfw = (channel: GuildChannelData) => ('nsfw' in channel ? channel.nsfw : undefined);
+
+const getSlowmode = (channel: GuildChannelData): number | undefined => {
+    if ('defaultThreadRateLimitPerUser' in channel) return channel.defaultThreadRateLimitPerUser;
+    if ('rateLimitPerUser' in channel) return channel.rateLimitPerUser;
+    return undefined;
+};
+
+const diffChannels = (before: BackupData, after: BackupData, changes: DiffChange[]) => {
+    const categories = pairItems(before.channels.categories, after.channels.categories, [(category) => category.name]);
+    for (const category of categories.added) {
+        changes.push({ entity: 'category', type: 'added', name: category.name });
+        diffOverwrites(category.name, [], category.permissions, changes);
+    }
+    for (const category of categories.removed) {
+        changes.push({ entity: 'category', type: 'removed', name: category.name });
+    }
+    for (const [oldCategory, newCategory] of categories.pairs) {
+        diffOverwrites(newCategory.name, oldCategory.permissions, newCategory.permissions, changes);
+    }
+
+    // Channels are matched across categories, so a channel that changed category is a move
+    const channels = pairItems(locateChannels(before), locateChannels(after), [
+        ({ channel, category }) => `${channel.type}:${category}:${channel.name}`,
+        ({ channel }) => `${channel.type}:${channel.name}`
+    ]);
+    for (const { channel } of channels.added) {
+        changes.push({ entity: 'channel', type: 'added', name: channel.name });
+        diffOverwrites(channel.name, [], channel.permissions, changes);
+    }
+    for (const { channel } of channels.removed) {
+        changes.push({ entity: 'channel', type: 'removed', name: channel.name });
+    }
+
+    for (const [oldLocated, newLocated] of channels.pairs) {
+        const oldChannel = oldLocated.channel;
+        const newChannel = newLocated.channel;
+
+        if (oldLocated.category !== newLocated.category) {
+            changes.push({
+                entity: 'channel',
+                type: 'moved',
+                name: newChannel.name,
+                before: oldLocated.category,
+                after: newLocated.category
+            });
+        }
+
+        diffFields(changes, 'channel', newChannel.name, {
+            topic: [getTopic(oldChannel), getTopic(newChannel)],
+            slowmode: [getSlowmode(oldChannel), getSlowmode(newChannel)],
+            nsfw: [getNsfw(oldChannel), getNsfw(newChannel)]
+        });
+
+        diffOverwrites(newChannel.name, oldChannel.permissions, newChannel.permissions, changes);
+    }
+};
+
+/* ===========================
+   EMOJIS
+=========================== */
+
+const diffEmojis = (before: BackupData, after: BackupData, changes: DiffChange[]) => {
+    const { pairs, added, removed } = pairItems(before.emojis, after.emojis, [(emoji) => emoji.name]);
+
+    for (const emoji of added) changes.push({ entity: 'emoji', type: 'added', name: emoji.name });
+    for (const emoji of removed) changes.push({ entity: 'emoji', type: 'removed', name: emoji.name });
+
+    const roleNames = (roles: { roleName: string }[]) =>
+        roles.map((role) => role.roleName).sort().join(', ');
+    for (const [oldEmoji, newEmoji] of pairs) {
+        diffFields(changes, 'emoji', newEmoji.name, {
+            animated: [oldEmoji.animated, newEmoji.animated],
+            roles: [roleNames(oldEmoji.roles), roleNames(newEmoji.roles)]
+        });
+    }
+};
+
+/* ===========================
+   DIFF
+=========================== */
+
+/**
+ * Compares two backups of a guild
+ * @param {BackupData} before The older backup
+ * @param {BackupData} after The newer backup
+ * @returns {BackupDiff} Every change from the older backup to the newer one
+ */
+export function diffBackups(before: BackupData, after: BackupData): BackupDiff {
+    const changes: DiffChange[] = [];
+
+    diffFields(changes, 'guild', after.name, {
+        name: [before.name, after.name],
+        verificationLevel: [before.verificationLevel, after.verificationLevel],
+        explicitContentFilter: [before.explicitContentFilter, after.explicitContentFilter],
+        defaultMessageNotifications: [before.defaultMessageNotifications, after.defaultMessageNotifications]
+    });
+    diffRoles(before.roles, after.roles, changes);
+    diffChannels(before, after, changes);
+    diffEmojis(before, after, changes);
+
+    const side = (backup: BackupData) => ({ id: backup.id, name: backup.name, createdTimestamp: backup.createdTimestamp });
+    return { from: side(before), to: side(after), changes };
+}
+
+const CHANGE_SYMBOLS: Record<DiffChangeType, string> = {
+    added: '+',
+    removed: '-',
+    renamed: '~',
+    moved: '>',
+    changed: '~'
+};
+
+const formatValue = (value: DiffChange['before']) =>
+    value === null || value === '' ? '(none)' : typeof value === 'string' ? `"${value}"` : String(value);
+
+const formatPermissions = (label: string, change: PermissionNamesChange) => {
+    const names = [...change.added.map((name) => `+${name}`), ...change.removed.map((name) => `-${name}`)];
+    return names.length ? `${label}${names.join(' ')}` : null;
+};
+
+const formatChange = (change: DiffChange) => {
+    let line = `${CHANGE_SYMBOLS[change.type]} ${change.entity} ${change.name}`;
+    if (change.target) line += ` on ${change.target}`;
+
+    if (change.type === 'renamed') {
+        line += ` (was ${change.before})`;
+    } else if (change.type === 'moved') {
+        line += `: ${change.before ?? '(no category)'} -> ${change.after ?? '(no category)'}`;
+    } else if (change.permissions) {
+        const permissions = formatPermissions('', change.permissions);
+        if (permissions) line += `: ${permissions}`;
+    } else if (change.allow || change.deny) {
+        const details = [formatPermissions('allow ', change.allow), formatPermissions('deny ', change.deny)]
+            .filter(Boolean);
+        if (details.length) line += `: ${details.join(', ')}`;
+    } else if (change.type === 'changed') {
+        line += ` ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`;
+    }
+
+    return line;
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString();
+
+/**
+ * Formats a diff as readable lines
+ */
+export function formatBackupDiff(diff: BackupDiff): string {
+    const lines = [
+        `${diff.from.name} (${diff.from.id}, ${formatDate(diff.from.createdTimestamp)}) -> ` +
+            `${diff.to.name} (${diff.to.id}, ${formatDate(diff.to.createdTimestamp)})`,
+        ...diff.changes.map(formatChange)
+    ];
+
+    if (!diff.changes.length) lines.push('No differences');
+    return lines.join('\n');
+}
+
+/* ===========================
+   SEVERITY
+=========================== */
+
+// Settings that keep unwanted members and content out of the guild
+const MODERATION_SETTINGS = ['verificationLevel', 'explicitContentFilter'];
+
+/**
+ * Rates how much a change matters for the security of the guild.
+ * Anything that lets someone do more than the backup allowed is a permission escalation, and critical.
+ */
+export function getChangeSeverity(change: DiffChange): DiffSeverity {
+    if (change.permissions?.added.length) return 'critical';
+    if (change.allow?.added.length || change.deny?.removed.length) return 'critical';
+
+    if (change.type === 'removed' || change.permissions || change.allow || change.deny) return 'warning';
+    if (change.entity === 'guild' && MODERATION_SETTINGS.includes(change.field)) return 'warning';
+    return 'info';
+}
+
+/**
+ * Groups the changes from a backup to the live guild by severity
+ * @param {BackupDiff} diff The diff from the backup to a capture of the guild
+ * @param {Snowflake} guildID The ID of the guild
+ * @returns {GuildDrift} The changes of every severity
+ */
+export function getGuildDrift(diff: BackupDiff, guildID: Snowflake): GuildDrift {
+    const changes: Record<DiffSeverity, DiffChange[]> = { critical: [], warning: [], info: [] };
+    for (const change of diff.changes) changes[getChangeSeverity(change)].push(change);
+    return { backup: diff.from, guildID, changes };
+}
+
+const SEVERITY_LABELS: Record<DiffSeverity, string> = {
+    critical: 'CRITICAL',
+    warning: 'WARNING',
+    info: 'INFO'
+};
+
+/**
+ * Formats the drift of a guild as readable lines, the most severe changes first
+ */
+export function formatGuildDrift(drift: GuildDrift): string {
+    const lines = [
+        `Guild ${drift.guildID} compared to ${drift.backup.name} ` +
+            `(${drift.backup.id}, ${formatDate(drift.backup.createdTimestamp)})`
+    ];
+
+    for (const [severity, changes] of Object.entries(drift.changes) as [DiffSeverity, DiffChange[]][]) {
+        if (!changes.length) continue;
+        lines.push(`${SEVERITY_LABELS[severity]} (${changes.length})`);
+        lines.push(...changes.map((change) => `  ${formatChange(change)}`));
+    }
+
+    if (lines.length === 1) lines.push('No differences');
+    return lines.join('\n');
+}
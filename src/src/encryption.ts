@@ -0,0 +1,64 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+/**
+ * An encrypted backup is the file create would have written, sealed with AES-256-GCM.
+ * The key is derived from the passphrase with scrypt and a random salt.
+ * Layout: magic, salt, IV, authentication tag, then the ciphertext.
+ */
+const MAGIC = Buffer.from('DSCENC1\n', 'utf-8');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
+
+const deriveKey = (passphrase: string, salt: Buffer) =>
+    scryptSync(passphrase, salt, 32, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 });
+
+/**
+ * Whether a backup file was written encrypted
+ */
+export function isEncrypted(file: Buffer): boolean {
+    return file.length >= MAGIC.length && file.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Encrypts a backup file
+ * @param {Buffer} file The JSON or archive create would have written
+ * @param {string} passphrase The passphrase the key is derived from
+ * @returns {Buffer} The encrypted file
+ */
+export function encryptBackup(file: Buffer, passphrase: string): Buffer {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+    const ciphertext = Buffer.concat([cipher.update(file), cipher.final()]);
+    return Buffer.concat([MAGIC, salt, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypts a backup file written by encryptBackup.
+ * Nothing is returned unless the whole file is authenticated, so a wrong passphrase or a
+ * tampered file never reaches the parser.
+ * @param {Buffer} file The encrypted file
+ * @param {string} passphrase The passphrase the file was encrypted with
+ * @returns {Buffer} The JSON or archive that was encrypted
+ */
+export function decryptBackup(file: Buffer, passphrase: string): Buffer {
+    if (!isEncrypted(file) || file.length < HEADER_LENGTH) {
+        throw new Error('The file is not an encrypted backup');
+    }
+
+    let offset = MAGIC.length;
+    const read = (length: number) => file.subarray(offset, (offset += length));
+    const salt = read(SALT_LENGTH);
+    const iv = read(IV_LENGTH);
+    const tag = read(TAG_LENGTH);
+
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+    decipher.setAuthTag(tag);
+    try {
+        return Buffer.concat([decipher.update(file.subarray(HEADER_LENGTH)), decipher.final()]);
+    } catch {
+        throw new Error('Wrong passphrase, or the backup file was tampered with');
+    }
+}
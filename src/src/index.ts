@@ -1,8 +1,14 @@
 import type {
   BackupData,
+  BackupDiff,
   BackupInfos,
+  BackupMetadata,
   CreateOptions,
+  GuildDrift,
   LoadOptions,
+  RestoreResult,
+  RestoreStepResult,
+  RollbackResult,
 } from "./types/";
 import type { Guild } from "discord.js-selfbot-v13";
 import { SnowflakeUtil, Intents } from "discord.js-selfbot-v13";
@@ -14,37 +20,63 @@ import {
   existsSync,
   mkdirSync,
   readdir,
+  readFile,
   statSync,
   unlinkSync,
   writeFile,
 } from "fs";
 import { promisify } from "util";
 const writeFileAsync = promisify(writeFile);
+const readFileAsync = promisify(readFile);
 const readdirAsync = promisify(readdir);
 
+import { packArchive, unpackArchive } from "./archive";
+import {
+  diffBackups,
+  formatBackupDiff,
+  formatGuildDrift,
+  getGuildDrift,
+} from "./diff";
+import { decryptBackup, encryptBackup, isEncrypted } from "./encryption";
+import { CURRENT_SCHEMA_VERSION, migrateBackup } from "./migrations";
+import { validateBackup } from "./validate";
+import {
+  buildRestorePlan,
+  createRestoreContext,
+  formatRestorePlan,
+  runRestorePlan,
+} from "./plan";
+import {
+  createJournal,
+  getJournalFile,
+  readJournal,
+  removeJournal,
+  resumeFromJournal,
+  writeJournal,
+} from "./journal";
+import {
+  collectEntityIds,
+  deleteCreatedEntities,
+  GuildEntityIds,
+} from "./rollback";
+import { createScheduler } from "./scheduler";
 import * as createMaster from "./create";
-import * as loadMaster from "./load";
 import * as utilMaster from "./util";
 
 /* ===========================
    Utils
 =========================== */
 
+/**
+ * @deprecated Restores queue their calls in a scheduler, which retries them by itself
+ */
 export async function executeWithRetry(
   operation: () => any,
   retrytents2 = 3
 ) {
-  let retrytents = 0;
-  while (retrytents < retrytents2) {
-    try {
-      await operation();
-      return;
-    } catch (error) {
-      console.error(`Erro na clonagem (tentativa ${retrytents + 1}):`, error);
-      retrytents++;
-    }
-  }
-  throw new Error(`A clonagem falhou após ${retrytents2} tentativas`);
+  await createScheduler(1, retrytents2 - 1).schedule("executeWithRetry", async () => {
+    await operation();
+  });
 }
 
 /* ===========================
@@ -56,27 +88,99 @@ if (!existsSync(cloner)) {
   mkdirSync(cloner);
 }
 
-const BACKUP_FILE = () => `${cloner}${sep}666.json`;
+// Backup IDs become file names, so anything that could escape the folder is refused
+const isValidBackupID = (backupID: string) =>
+  typeof backupID === "string" && /^[\w-]+$/.test(backupID);
+
+const BACKUP_FILE = (backupID: string) => `${cloner}${sep}${backupID}.json`;
+const BACKUP_ARCHIVE = (backupID: string) => `${cloner}${sep}${backupID}.tar.gz`;
+const JSON_EXTENSION = ".json";
+const ARCHIVE_EXTENSION = ".tar.gz";
+
+// A backup is saved either as an archive or as a JSON file, the archive is preferred when both exist
+const getBackupFile = (backupID: string) =>
+  existsSync(BACKUP_ARCHIVE(backupID)) ? BACKUP_ARCHIVE(backupID) : BACKUP_FILE(backupID);
+const JOURNAL_FOLDER = () => `${cloner}${sep}journals`;
+const DIFF_FOLDER = () => `${cloner}${sep}diffs`;
+
+/* ===========================
+   Passphrase
+=========================== */
+
+let passphraseProvider: (confirm?: boolean) => Promise<string> = null;
+let passphrase: string = null;
+
+/**
+ * Sets how the passphrase of encrypted backups is asked for when BACKUP_PASSPHRASE is not set.
+ * The provider is called again with confirm set when a new passphrase has to be typed twice.
+ */
+export const setPassphraseProvider = (provider: (confirm?: boolean) => Promise<string>) => {
+  passphraseProvider = provider;
+  passphrase = null;
+};
+
+// The passphrase is asked once and kept until it fails to decrypt a backup
+const getPassphrase = async () => {
+  passphrase = passphrase || process.env.BACKUP_PASSPHRASE || (await passphraseProvider?.()) || null;
+  if (!passphrase) {
+    throw new Error("Defina BACKUP_PASSPHRASE para usar backups criptografados");
+  }
+  return passphrase;
+};
+
+// A typo in the passphrase of a new backup would make it unreadable, so it is asked twice
+const getNewPassphrase = async () => {
+  if (passphrase || process.env.BACKUP_PASSPHRASE || !passphraseProvider) return getPassphrase();
+
+  const typed = await passphraseProvider();
+  if (typed && typed !== (await passphraseProvider(true))) {
+    throw new Error("As senhas não coincidem, o backup não foi criptografado");
+  }
+  passphrase = typed || null;
+  return getPassphrase();
+};
 
 /* ===========================
    Backup loader (CORRIGIDO)
 =========================== */
 
-const getBackupData = async (_backupID: string) => {
-  return new Promise<BackupData>((resolve, reject) => {
-    try {
-      const filePath = BACKUP_FILE();
+const getBackupData = async (backupID: string) => {
+  return new Promise<BackupData>(async (resolve, reject) => {
+    if (!isValidBackupID(backupID)) {
+      return reject(`ID de backup inválido: ${backupID}`);
+    }
 
-      if (!existsSync(filePath)) {
-        return reject(
-          "Nenhum backup encontrado.\n👉 Crie um backup antes de tentar clonar."
-        );
+    const filePath = getBackupFile(backupID);
+
+    if (!existsSync(filePath)) {
+      return reject(
+        `Nenhum backup encontrado com o ID ${backupID}.\n👉 Crie um backup antes de tentar clonar.`
+      );
+    }
+
+    let rawData: unknown;
+    try {
+      let file: Buffer = await readFileAsync(filePath);
+      if (isEncrypted(file)) {
+        try {
+          file = decryptBackup(file, await getPassphrase());
+        } catch (err) {
+          passphrase = null;
+          throw err;
+        }
       }
 
-      const backupData: BackupData = require(filePath);
-      resolve(backupData);
+      rawData = filePath.endsWith(ARCHIVE_EXTENSION)
+        ? unpackArchive(file)
+        : JSON.parse(file.toString("utf-8"));
+    } catch (err) {
+      return reject(`Erro ao carregar o arquivo de backup: ${(err as Error).message}`);
+    }
+
+    try {
+      resolve(migrateBackup(rawData));
     } catch (err) {
-      reject("Erro ao carregar o arquivo de backup.");
+      reject(`Não foi possível atualizar o backup ${backupID}: ${(err as Error).message}`);
     }
   });
 };
@@ -89,7 +193,7 @@ export const fetch = (backupID: string) => {
   return new Promise<BackupInfos>(async (resolve, reject) => {
     try {
       const backupData = await getBackupData(backupID);
-      const size = statSync(BACKUP_FILE()).size;
+      const size = statSync(getBackupFile(backupID)).size;
 
       resolve({
         data: backupData,
@@ -122,9 +226,16 @@ export const create = async (
     if (!intents.has("GUILDS")) {
       return reject("GUILDS intent is required");
     }
+    if (options.backupID != null && !isValidBackupID(options.backupID)) {
+      return reject(`ID de backup inválido: ${options.backupID}`);
+    }
+
+    // Archives bundle the images, so they are always downloaded
+    if (options.archive) options = { ...options, saveImages: "base64" };
 
     try {
       const backupData: BackupData = {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         name: guild.name,
         verificationLevel: guild.verificationLevel,
         explicitContentFilter: guild.explicitContentFilter,
@@ -133,15 +244,24 @@ export const create = async (
           ? { name: guild.afkChannel.name, timeout: guild.afkTimeout }
           : null,
         widget: {
-          enabled: guild.widgetEnabled,
+          enabled: guild.widgetEnabled ?? false,
           channel: guild.widgetChannel
             ? guild.widgetChannel.name
             : null,
         },
+        description: guild.description,
+        preferredLocale: guild.preferredLocale,
+        premiumProgressBarEnabled: guild.premiumProgressBarEnabled,
+        systemChannel: guild.systemChannel?.name ?? null,
+        systemChannelFlags: guild.systemChannelFlags.toArray(),
+        rulesChannel: guild.rulesChannel?.name ?? null,
+        publicUpdatesChannel: guild.publicUpdatesChannel?.name ?? null,
+        safetyAlertsChannel: guild.safetyAlertsChannel?.name ?? null,
         channels: { categories: [], others: [] },
         roles: [],
         bans: [],
         emojis: [],
+        stickers: [],
         createdTimestamp: Date.now(),
         guildID: guild.id,
         id: options.backupID ?? SnowflakeUtil.generate(Date.now()),
@@ -157,6 +277,7 @@ export const create = async (
         }
         backupData.iconURL = guild.iconURL({ dynamic: true });
       }
+      Object.assign(backupData, await createMaster.getGuildImages(guild, options));
 
       if (!options.doNotBackup?.includes("roles")) {
         backupData.roles = await createMaster.getRoles(guild);
@@ -164,16 +285,32 @@ export const create = async (
       if (!options.doNotBackup?.includes("emojis")) {
         backupData.emojis = await createMaster.getEmojis(guild, options);
       }
+      if (!options.doNotBackup?.includes("stickers")) {
+        backupData.stickers = await createMaster.getStickers(guild, options);
+      }
       if (!options.doNotBackup?.includes("channels")) {
         backupData.channels = await createMaster.getChannels(guild, options);
       }
 
       if (options.jsonSave !== false) {
-        const json = options.jsonBeautify
-          ? JSON.stringify(backupData, null, 4)
-          : JSON.stringify(backupData);
+        let file = options.archive
+          ? packArchive(backupData, options.jsonBeautify)
+          : Buffer.from(
+              options.jsonBeautify
+                ? JSON.stringify(backupData, null, 4)
+                : JSON.stringify(backupData),
+              "utf-8"
+            );
+        if (options.encrypt) file = encryptBackup(file, await getNewPassphrase());
+
+        await writeFileAsync(
+          options.archive ? BACKUP_ARCHIVE(backupData.id) : BACKUP_FILE(backupData.id),
+          file
+        );
 
-        await writeFileAsync(BACKUP_FILE(), json, "utf-8");
+        // A backup saved again with the same ID in the other format must not leave the old file behind
+        const stale = options.archive ? BACKUP_FILE(backupData.id) : BACKUP_ARCHIVE(backupData.id);
+        if (existsSync(stale)) unlinkSync(stale);
       }
 
       resolve(backupData);
@@ -195,32 +332,121 @@ export const load = async (
     maxMessagesPerChannel: 10,
   }
 ) => {
-  return new Promise(async (resolve, reject) => {
+  return new Promise<RestoreResult>(async (resolve, reject) => {
     if (!guild) return reject("Invalid guild");
 
+    const start = Date.now();
     try {
       const backupData: BackupData =
         typeof backup === "string"
           ? await getBackupData(backup)
-          : backup;
+          : migrateBackup(backup);
 
-      if (options.clearGuildBeforeRestore !== false) {
-        await executeWithRetry(() => utilMaster.clearGuild(guild));
+      // Nothing may touch the guild before the whole backup is known to be valid
+      const issues = validateBackup(backupData);
+      if (issues.length) {
+        return reject(
+          "O backup é inválido, a clonagem não foi iniciada:\n" +
+            issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n")
+        );
       }
 
-      await Promise.all([
-        loadMaster.loadConfig(guild, backupData),
-        executeWithRetry(() => loadMaster.loadRoles(guild, backupData)),
-        executeWithRetry(() =>
-          loadMaster.loadChannels(guild, backupData, options)
-        ),
-        loadMaster.loadAFK(guild, backupData),
-        executeWithRetry(() => loadMaster.loadEmojis(guild, backupData)),
-        loadMaster.loadEmbedChannel(guild, backupData),
-      ]);
+      const context = createRestoreContext(options);
+
+      // Dry runs write nothing and sync mode reconciles by itself, neither needs a journal
+      const journalFile = getJournalFile(JOURNAL_FOLDER(), backupData.id, guild.id);
+      if (!options.dryRun && !options.sync) {
+        const previous = options.resume !== false ? readJournal(journalFile) : null;
+        if (previous) {
+          resumeFromJournal(previous, guild, backupData, context);
+          console.log(`Retomando a clonagem interrompida do backup ${backupData.id}`);
+        } else {
+          context.journal = createJournal(backupData.id, guild.id);
+        }
+        context.checkpoint = () => writeJournal(journalFile, context.journal, context);
+      }
 
-      resolve(backupData);
+      // The snapshot is taken before anything is cleared, so a failed restore can be undone
+      let snapshot: BackupData = null;
+      let existingIds: GuildEntityIds = null;
+      if (options.rollbackOnFailure && !options.dryRun) {
+        snapshot = await create(guild, {
+          jsonSave: false,
+          maxMessagesPerChannel: 0,
+          doNotBackup: [],
+          saveImages: "base64",
+        });
+        existingIds = collectEntityIds(guild);
+      }
+
+      let steps: RestoreStepResult[] = [];
+      let failed = false;
+      try {
+        if (
+          options.clearGuildBeforeRestore !== false &&
+          !options.sync &&
+          !context.journal?.cleared
+        ) {
+          await utilMaster.clearGuild(guild, context);
+          if (context.journal) {
+            context.journal.cleared = true;
+            context.checkpoint();
+          }
+        }
+
+        steps = await runRestorePlan(
+          buildRestorePlan(guild, backupData, context),
+          context
+        );
+        // A partial step left entities out of the guild, so it fails the restore like a failed step
+        failed = !steps.every((step) => ["success", "resumed"].includes(step.status));
+      } catch (err) {
+        if (!snapshot) throw err;
+        context.errors.push(`restore: ${err}`);
+        failed = true;
+      }
+
+      const result: RestoreResult = {
+        backupID: backupData.id,
+        steps,
+        counts: context.counts,
+        errors: context.errors,
+        durationMs: Date.now() - start,
+        skippedMemberOverwrites: context.skippedMemberOverwrites,
+        unresolvedOverwrites: context.unresolvedOverwrites,
+        skippedEmojis: context.skippedEmojis,
+        skippedStickers: context.skippedStickers,
+      };
+
+      if (snapshot && failed) {
+        result.rollback = await rollbackRestore(guild, snapshot, existingIds);
+        console.log(
+          result.rollback.success
+            ? `Clonagem falhou, o servidor foi restaurado como estava antes`
+            : `Clonagem falhou e o servidor não pôde ser restaurado por completo:\n` +
+                result.rollback.errors.map((error) => `- ${error}`).join("\n")
+        );
+      }
+
+      // The journal is kept while a step is left to do or something failed to restore,
+      // so the next run continues from there and retries what is missing.
+      // A rolled back restore has nothing left to continue.
+      if (context.journal) {
+        if (!failed || result.rollback) {
+          removeJournal(journalFile);
+        } else {
+          console.log(`Clonagem incompleta, execute novamente para continuar de onde parou`);
+        }
+      }
+
+      if (options.dryRun) {
+        result.plan = context.plan;
+        console.log(formatRestorePlan(result));
+      }
+
+      resolve(result);
     } catch (err) {
+      if (typeof err === "string") return reject(err);
       reject(
         "Não foi possível continuar a clonagem.\n" +
           "Nenhum backup válido foi encontrado.\n\n" +
@@ -230,17 +456,111 @@ export const load = async (
   });
 };
 
+/* ===========================
+   Rollback
+=========================== */
+
+/**
+ * Deletes everything a failed restore created and restores the snapshot taken before it.
+ * The snapshot is restored in sync mode, so whatever the restore edited is set back as well.
+ */
+const rollbackRestore = async (
+  guild: Guild,
+  snapshot: BackupData,
+  existingIds: GuildEntityIds
+): Promise<RollbackResult> => {
+  const errors = await deleteCreatedEntities(guild, existingIds, createScheduler());
+
+  try {
+    const restored = await load(snapshot, guild, {
+      clearGuildBeforeRestore: false,
+      sync: true,
+      syncDeleteExtra: false,
+      resume: false,
+    });
+    errors.push(...restored.errors);
+  } catch (err) {
+    errors.push(`Could not restore the snapshot: ${err}`);
+  }
+
+  return { success: !errors.length, errors };
+};
+
+/* ===========================
+   Diff backups
+=========================== */
+
+/**
+ * Compares two backups, given by ID or as data
+ * @returns {Promise<BackupDiff>} Every change from the older backup to the newer one
+ */
+export const diff = async (
+  before: string | BackupData,
+  after: string | BackupData
+): Promise<BackupDiff> => {
+  const read = (backup: string | BackupData) =>
+    typeof backup === "string" ? getBackupData(backup) : migrateBackup(backup);
+  return diffBackups(await read(before), await read(after));
+};
+
+/**
+ * Compares a live guild with a backup, to find what drifted from it
+ * @returns {Promise<GuildDrift>} Every change from the backup to the guild, grouped by severity
+ */
+export const diffGuild = async (
+  backup: string | BackupData,
+  guild: Guild
+): Promise<GuildDrift> => {
+  const backupData =
+    typeof backup === "string" ? await getBackupData(backup) : migrateBackup(backup);
+
+  // The guild is captured like a backup, without messages, images or anything the diff ignores
+  const live = await create(guild, {
+    jsonSave: false,
+    maxMessagesPerChannel: 0,
+    doNotBackup: ["bans", "stickers"],
+    saveImages: "",
+  });
+
+  return getGuildDrift(diffBackups(backupData, live), guild.id);
+};
+
+/**
+ * Saves a diff as JSON in the diffs folder of the storage folder, named after both backups
+ * @returns {Promise<string>} The path of the saved file
+ */
+export const saveDiff = async (result: BackupDiff): Promise<string> => {
+  if (!existsSync(DIFF_FOLDER())) mkdirSync(DIFF_FOLDER(), { recursive: true });
+
+  const path = `${DIFF_FOLDER()}${sep}${result.from.id}-${result.to.id}.json`;
+  await writeFileAsync(path, JSON.stringify(result, null, 4));
+  return path;
+};
+
+export { formatBackupDiff, formatGuildDrift };
+
+/* ===========================
+   Validate backup
+=========================== */
+
+export { validateBackup };
+
 /* ===========================
    Remove backup
 =========================== */
 
-export const remove = async () => {
+export const remove = async (backupID: string) => {
   return new Promise<void>((resolve, reject) => {
+    if (!isValidBackupID(backupID)) {
+      return reject(`ID de backup inválido: ${backupID}`);
+    }
+
     try {
-      if (!existsSync(BACKUP_FILE())) {
+      const filePath = getBackupFile(backupID);
+      if (!existsSync(filePath)) {
         return reject("Backup não encontrado");
       }
-      unlinkSync(BACKUP_FILE());
+      unlinkSync(filePath);
       resolve();
     } catch {
       reject("Erro ao remover o backup");
@@ -254,7 +574,45 @@ export const remove = async () => {
 
 export const list = async () => {
   const files = await readdirAsync(cloner);
-  return files.filter((f) => f.endsWith(".json")).map((f) => f.split(".")[0]);
+  const backups: BackupMetadata[] = [];
+
+  const ids = new Set<string>();
+  for (const file of files) {
+    if (file.endsWith(JSON_EXTENSION)) ids.add(file.slice(0, -JSON_EXTENSION.length));
+    if (file.endsWith(ARCHIVE_EXTENSION)) ids.add(file.slice(0, -ARCHIVE_EXTENSION.length));
+  }
+
+  for (const backupID of ids) {
+    const filePath = getBackupFile(backupID);
+    const stats = statSync(filePath);
+
+    // Listing must not ask for the passphrase, so encrypted backups are only described by their file
+    if (isValidBackupID(backupID) && isEncrypted(await readFileAsync(filePath))) {
+      backups.push({
+        id: backupID,
+        name: null,
+        guildID: null,
+        createdTimestamp: stats.mtime.getTime(),
+        size: Number((stats.size / 1024).toFixed(2)),
+        locked: true,
+      });
+      continue;
+    }
+
+    // Unreadable or foreign files in the folder are not backups, skip them
+    const backupData = await getBackupData(backupID).catch((): BackupData => null);
+    if (!backupData) continue;
+
+    backups.push({
+      id: backupID,
+      name: backupData.name,
+      guildID: backupData.guildID,
+      createdTimestamp: backupData.createdTimestamp,
+      size: Number((stats.size / 1024).toFixed(2)),
+    });
+  }
+
+  return backups.sort((a, b) => b.createdTimestamp - a.createdTimestamp);
 };
 
 /* ===========================
@@ -269,8 +627,11 @@ export const setStorageFolder = (path: string) => {
 
 export default {
   create,
+  diff,
+  diffGuild,
   fetch,
   list,
   load,
   remove,
+  saveDiff,
 };
@@ -0,0 +1,122 @@
+import type { Guild, Snowflake } from 'discord.js-selfbot-v13';
+import type { BackupData, RestoreContext, RestoreJournal } from './types';
+
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { sep } from 'path';
+
+/**
+ * Returns the path of the journal of one backup restored into one guild
+ */
+export const getJournalFile = (folder: string, backupID: Snowflake, guildID: Snowflake) =>
+    `${folder}${sep}${backupID}-${guildID}.json`;
+
+/**
+ * Reads the journal left by an interrupted restore
+ * @returns {RestoreJournal | null} The journal, or null when there is none or it is unreadable
+ */
+export function readJournal(file: string): RestoreJournal | null {
+    if (!existsSync(file)) return null;
+    try {
+        return JSON.parse(readFileSync(file, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Starts an empty journal
+ */
+export function createJournal(backupID: Snowflake, guildID: Snowflake): RestoreJournal {
+    return {
+        backupID,
+        guildID,
+        startedTimestamp: Date.now(),
+        cleared: false,
+        completedSteps: [],
+        roles: {},
+        categories: {},
+        channels: {},
+        emojis: {},
+        stickers: {}
+    };
+}
+
+/**
+ * Writes the journal with every ID the restore created so far
+ */
+export function writeJournal(file: string, journal: RestoreJournal, context: RestoreContext) {
+    const ids = <K extends string | number>(map: Map<K, { id: Snowflake }>) => {
+        const record = {} as Record<K, Snowflake>;
+        map.forEach((value, key) => {
+            if (value) record[key] = value.id;
+        });
+        return record;
+    };
+
+    journal.roles = ids(context.roles);
+    journal.categories = ids(context.categories);
+    journal.channels = ids(context.channels);
+    journal.emojis = ids(context.emojis);
+    journal.stickers = ids(context.stickers);
+
+    const folder = file.slice(0, file.lastIndexOf(sep));
+    if (!existsSync(folder)) mkdirSync(folder, { recursive: true });
+    writeFileSync(file, JSON.stringify(journal), 'utf-8');
+}
+
+export function removeJournal(file: string) {
+    if (existsSync(file)) unlinkSync(file);
+}
+
+/**
+ * Fills the restore context with what an interrupted restore already created.
+ * Anything deleted from the guild since then is left out, so it gets created again.
+ */
+export function resumeFromJournal(
+    journal: RestoreJournal,
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+) {
+    const lost = new Set<string>();
+
+    for (const [index, id] of Object.entries(journal.roles)) {
+        const role = guild.roles.cache.get(id);
+        const roleData = backupData.roles[Number(index)];
+        if (!role || !roleData) {
+            lost.add('roles');
+            continue;
+        }
+        context.roles.set(Number(index), role);
+        if (roleData.id) context.roleIds.set(roleData.id, role);
+    }
+
+    for (const [index, id] of Object.entries(journal.categories)) {
+        const category = guild.channels.cache.get(id);
+        if (category?.type === 'GUILD_CATEGORY') context.categories.set(Number(index), category);
+        else lost.add('categories');
+    }
+
+    for (const [key, id] of Object.entries(journal.channels)) {
+        const channel = guild.channels.cache.get(id);
+        if (channel && !channel.isThread()) context.channels.set(key, channel);
+        else lost.add('channels');
+    }
+
+    for (const [index, id] of Object.entries(journal.emojis)) {
+        const emoji = guild.emojis.cache.get(id);
+        if (emoji) context.emojis.set(Number(index), emoji);
+        else lost.add('emojis');
+    }
+
+    // Journals written before stickers were restored have none
+    for (const [index, id] of Object.entries(journal.stickers ?? {})) {
+        const sticker = guild.stickers.cache.get(id);
+        if (sticker) context.stickers.set(Number(index), sticker);
+        else lost.add('stickers');
+    }
+
+    // A finished step that lost some of what it created runs again to recreate it
+    journal.completedSteps = journal.completedSteps.filter((step) => !lost.has(step));
+    context.journal = journal;
+}
@@ -1,172 +1,424 @@
-import type { Emoji, Guild, Role, VoiceChannel } from 'discord.js-selfbot-v13';
-import gradient from 'gradient-string';
 import type {
-    BackupData,
-    CategoryData,
-    LoadOptions,
-    TextChannelData,
-    VoiceChannelData
-} from './types';
-
-import util from './util';
+    CategoryChannel,
+    Emoji,
+    Guild,
+    GuildChannel,
+    GuildFeatures,
+    PremiumTier,
+    Role,
+    RoleManager,
+    RolePosition,
+    Sticker,
+    TextChannel,
+    VoiceChannel
+} from 'discord.js-selfbot-v13';
+import gradient from 'gradient-string';
+import type { BackupData, EmojiData, RestoreContext, RoleData } from './types';
+
+import util, { getEmojiLimit, getStickerLimit, perform, recordOutcome } from './util';
 import { t } from '../utils/func';
 
+const PREMIUM_TIERS: PremiumTier[] = ['NONE', 'TIER_1', 'TIER_2', 'TIER_3'];
+
+/**
+ * Returns why the guild cannot have an image, or null when it can.
+ * The feature comes with the boost tier, but partnered and verified guilds have it without boosts.
+ */
+const getMissingImageRequirement = (guild: Guild, feature: GuildFeatures, tier: PremiumTier | null): string | null => {
+    if (guild.features.includes(feature)) return null;
+    if (tier && PREMIUM_TIERS.indexOf(guild.premiumTier) >= PREMIUM_TIERS.indexOf(tier)) return null;
+    return tier ? `boost tier ${PREMIUM_TIERS.indexOf(tier)}` : `the ${feature} feature`;
+};
+
 /**
  * Restores the guild configuration
  */
-export const loadConfig = (guild: Guild, backupData: BackupData): Promise<Guild[]> => {
+export const loadConfig = (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Guild[]> => {
     const configPromises: Promise<Guild>[] = [];
+    const editGuild = (name: string, details: string, write: () => Promise<Guild>) =>
+        configPromises.push(perform(context, { action: 'edit', entity: 'guild', name, details }, write));
 
-    if (backupData.name) configPromises.push(guild.setName(backupData.name));
+    if (backupData.name && backupData.name !== guild.name) {
+        editGuild('name', backupData.name, () => guild.setName(backupData.name));
+    }
     if (backupData.iconBase64) {
-        configPromises.push(guild.setIcon(Buffer.from(backupData.iconBase64, 'base64')));
+        editGuild('icon', 'base64', () => guild.setIcon(Buffer.from(backupData.iconBase64, 'base64')));
     } else if (backupData.iconURL) {
-        configPromises.push(guild.setIcon(backupData.iconURL));
+        editGuild('icon', backupData.iconURL, () => guild.setIcon(backupData.iconURL));
     }
 
-    if (backupData.splashBase64) {
-        configPromises.push(guild.setSplash(Buffer.from(backupData.splashBase64, 'base64')));
-    } else if (backupData.splashURL) {
-        configPromises.push(guild.setSplash(backupData.splashURL));
+    // Checked first, so a guild without the boost tier gets a clear skip message instead of an API error
+    const setImage = (
+        name: string,
+        label: string,
+        base64: string | undefined,
+        url: string | undefined,
+        missing: string | null,
+        write: (image: Buffer | string) => Promise<Guild>
+    ) => {
+        if (!base64 && !url) return;
+        if (missing) {
+            context.warnings.push(`The ${label} was skipped, the guild needs ${missing}`);
+            return;
+        }
+        editGuild(name, base64 ? 'base64' : url, () => write(base64 ? Buffer.from(base64, 'base64') : url));
+    };
+
+    setImage('splash', 'invite splash', backupData.splashBase64, backupData.splashURL,
+        getMissingImageRequirement(guild, 'INVITE_SPLASH', 'TIER_1'), (image) => guild.setSplash(image));
+    setImage('banner', 'banner', backupData.bannerBase64, backupData.bannerURL,
+        getMissingImageRequirement(guild, 'BANNER', 'TIER_2'), (image) => guild.setBanner(image));
+    setImage('discoverySplash', 'discovery splash', backupData.discoverySplashBase64, backupData.discoverySplashURL,
+        getMissingImageRequirement(guild, 'DISCOVERABLE', null), (image) => guild.setDiscoverySplash(image));
+
+    if (backupData.verificationLevel && backupData.verificationLevel !== guild.verificationLevel) {
+        editGuild('verificationLevel', backupData.verificationLevel,
+            () => guild.setVerificationLevel(backupData.verificationLevel));
     }
 
-    if (backupData.bannerBase64) {
-        configPromises.push(guild.setBanner(Buffer.from(backupData.bannerBase64, 'base64')));
-    } else if (backupData.bannerURL) {
-        configPromises.push(guild.setBanner(backupData.bannerURL));
+    if (
+        backupData.defaultMessageNotifications &&
+        backupData.defaultMessageNotifications !== guild.defaultMessageNotifications
+    ) {
+        editGuild('defaultMessageNotifications', String(backupData.defaultMessageNotifications),
+            () => guild.setDefaultMessageNotifications(backupData.defaultMessageNotifications));
     }
 
-    if (backupData.verificationLevel) {
-        configPromises.push(guild.setVerificationLevel(backupData.verificationLevel));
+    const canChangeExplicit = guild.features.includes('COMMUNITY');
+    if (
+        backupData.explicitContentFilter && canChangeExplicit &&
+        backupData.explicitContentFilter !== guild.explicitContentFilter
+    ) {
+        editGuild('explicitContentFilter', backupData.explicitContentFilter,
+            () => guild.setExplicitContentFilter(backupData.explicitContentFilter));
     }
 
-    if (backupData.defaultMessageNotifications) {
-        configPromises.push(
-            guild.setDefaultMessageNotifications(backupData.defaultMessageNotifications)
-        );
+    if (
+        typeof backupData.premiumProgressBarEnabled === 'boolean' &&
+        backupData.premiumProgressBarEnabled !== guild.premiumProgressBarEnabled
+    ) {
+        editGuild('premiumProgressBarEnabled', String(backupData.premiumProgressBarEnabled),
+            () => guild.setPremiumProgressBarEnabled(backupData.premiumProgressBarEnabled));
     }
 
-    const canChangeExplicit = guild.features.includes('COMMUNITY');
-    if (backupData.explicitContentFilter && canChangeExplicit) {
-        configPromises.push(
-            guild.setExplicitContentFilter(backupData.explicitContentFilter)
-        );
+    // The flags are compared as a set, toArray does not keep the order of the backup
+    const systemChannelFlags = guild.systemChannelFlags.toArray();
+    if (
+        backupData.systemChannelFlags &&
+        (backupData.systemChannelFlags.length !== systemChannelFlags.length ||
+            backupData.systemChannelFlags.some((flag) => !systemChannelFlags.includes(flag)))
+    ) {
+        editGuild('systemChannelFlags', backupData.systemChannelFlags.join(', ') || 'none',
+            () => guild.setSystemChannelFlags(backupData.systemChannelFlags));
+    }
+
+    // Only community guilds have a description and a preferred locale
+    const isCommunity = guild.features.includes('COMMUNITY');
+    if (backupData.description && backupData.description !== guild.description) {
+        if (isCommunity) {
+            editGuild('description', backupData.description,
+                () => guild.edit({ description: backupData.description }));
+        } else {
+            context.warnings.push('The description was not restored, the guild is not a community');
+        }
+    }
+    if (backupData.preferredLocale && backupData.preferredLocale !== guild.preferredLocale) {
+        if (isCommunity) {
+            editGuild('preferredLocale', backupData.preferredLocale,
+                () => guild.setPreferredLocale(backupData.preferredLocale));
+        } else {
+            context.warnings.push('The preferred locale was not restored, the guild is not a community');
+        }
     }
 
     return Promise.all(configPromises);
 };
 
+/**
+ * Creates one role of the backup
+ */
+export const createRole = (guild: Guild, roleData: RoleData, context: RestoreContext): Promise<Role> => {
+    return perform(
+        context,
+        { action: 'create', entity: 'role', name: roleData.name, details: `permissions ${roleData.permissions}` },
+        () => guild.roles.create({
+            name: roleData.name,
+            color: roleData.color,
+            hoist: roleData.hoist,
+            permissions: BigInt(roleData.permissions),
+            mentionable: roleData.mentionable
+        }).then((role) => {
+            console.log(
+                gradient(['#ffcc00', '#0099cc', '#9933cc'])(
+                    t('rolecreate') + role.name
+                )
+            );
+            return role;
+        }),
+        { name: roleData.name }
+    ).then(
+        (role) => {
+            recordOutcome(context, 'role', roleData.name);
+            return role;
+        },
+        (err) => {
+            recordOutcome(context, 'role', roleData.name, err);
+            throw err;
+        }
+    );
+};
+
+/**
+ * Records a restored role in the context, or a warning when restoring it failed.
+ * One role failing must not fail the whole step and skip every channel after it.
+ * When an existing role was being edited, it still stands for the source role if the edit fails,
+ * so the overwrites on it are kept. Only a role that could not be created maps to null.
+ */
+export const trackRole = (
+    rolePromise: Promise<Role>,
+    roleData: RoleData,
+    index: number,
+    context: RestoreContext,
+    edited: Role = null
+): Promise<Role> => {
+    return rolePromise
+        .then((role) => {
+            context.roles.set(index, role);
+            if (roleData.id) context.roleIds.set(roleData.id, role);
+            context.checkpoint();
+            return role;
+        })
+        .catch((err): Role => {
+            if (roleData.id) context.roleIds.set(roleData.id, edited);
+            context.warnings.push(`Could not restore role ${roleData.name}: ${err}`);
+            return null;
+        });
+};
+
 /**
  * Restore roles
  */
-export const loadRoles = async (guild: Guild, backupData: BackupData): Promise<Role[]> => {
+export const loadRoles = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Role[]> => {
     const rolePromises: Promise<Role>[] = [];
 
-    backupData.roles.forEach((roleData) => {
+    backupData.roles.forEach((roleData, index) => {
+        // Already restored by an earlier, interrupted run
+        if (context.roles.has(index)) return;
+
+        let rolePromise: Promise<Role>;
+        let edited: Role = null;
+
         if (roleData.isEveryone) {
             const everyone = guild.roles.cache.get(guild.id);
             if (everyone) {
-                rolePromises.push(
-                    everyone.edit({
+                edited = everyone;
+                rolePromise = perform(
+                    context,
+                    { action: 'edit', entity: 'role', name: everyone.name, details: `permissions ${roleData.permissions}` },
+                    () => everyone.edit({
                         name: roleData.name,
                         color: roleData.color,
                         permissions: BigInt(roleData.permissions),
                         mentionable: roleData.mentionable
-                    })
+                    }),
+                    { id: everyone.id, name: everyone.name }
                 );
             }
         } else {
-            rolePromises.push(
-                guild.roles.create({
-                    name: roleData.name,
-                    color: roleData.color,
-                    hoist: roleData.hoist,
-                    permissions: BigInt(roleData.permissions),
-                    mentionable: roleData.mentionable
-                }).then((role) => {
-                    console.log(
-                        gradient(['#ffcc00', '#0099cc', '#9933cc'])(
-                            t('rolecreate') + role.name
-                        )
-                    );
-                    return role;
-                })
-            );
+            rolePromise = createRole(guild, roleData, context);
+        }
+
+        if (rolePromise) rolePromises.push(trackRole(rolePromise, roleData, index, context, edited));
+    });
+
+    const roles = await Promise.all(rolePromises);
+    return roles.filter(Boolean);
+};
+
+/**
+ * Restore the role hierarchy.
+ * Roles are created at the bottom of the list, so their relative order is rebuilt with one bulk update
+ * that sends every role of the guild, so the positions do not collide with the roles the backup does not have.
+ */
+export const loadRolePositions = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<void> => {
+    const me = guild.members.me ?? await guild.members.fetch(guild.client.user.id);
+    const isOwner = guild.ownerId === me.id;
+
+    const ordered = backupData.roles
+        .map((roleData, index) => ({ roleData, role: context.roles.get(index) }))
+        .filter(({ roleData, role }) => role && !roleData.isEveryone)
+        .sort((a, b) => a.roleData.position - b.roleData.position);
+    const restoredIds = new Set(ordered.map(({ role }) => role.id));
+
+    // Every role of the guild from the bottom. The roles the backup does not have keep their place,
+    // and the restored roles fill the places they took, in the order of the backup.
+    // Restored roles missing from the cache, like the placeholders of a dry run, were created at the bottom.
+    const existing = guild.roles.cache
+        .filter((role) => role.id !== guild.id && !context.cleared.has(role.id))
+        .sort((a, b) => a.position - b.position)
+        .toJSON();
+    const slots = [
+        ...ordered.filter(({ role }) => !guild.roles.cache.has(role.id)).map(({ role }) => role),
+        ...existing
+    ];
+    const queue = [...ordered];
+    const hierarchy = slots.map((role) => (restoredIds.has(role.id) ? queue.shift() : { roleData: null, role }));
+
+    // Nobody but the owner can move a role to or above their own highest role
+    const highestIndex = isOwner ? Infinity : slots.findIndex((role) => role.id === me.roles.highest.id);
+
+    const positions: RolePosition[] = [];
+    hierarchy.forEach(({ roleData, role }, index) => {
+        const position = index + 1;
+        if (index >= highestIndex) {
+            if (roleData) {
+                context.warnings.push(
+                    `Role ${roleData.name} could not be placed: it would sit above the highest role of ${me.user.tag}`
+                );
+            }
+            return;
         }
+        positions.push({ role, position });
     });
 
-    return Promise.all(rolePromises);
+    if (!positions.length) return;
+
+    // RoleManager#setPositions exists at runtime but is missing from the typings of this version
+    const roleManager = guild.roles as RoleManager & {
+        setPositions(rolePositions: readonly RolePosition[]): Promise<Guild>;
+    };
+    await perform(
+        context,
+        { action: 'edit', entity: 'role', name: 'positions', details: `${positions.length} roles reordered` },
+        () => roleManager.setPositions(positions)
+    );
+};
+
+/**
+ * Restore categories
+ */
+export const loadCategories = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<CategoryChannel[]> => {
+    for (const [index, categoryData] of backupData.channels.categories.entries()) {
+        if (context.categories.has(index)) continue;
+
+        try {
+            const category = await util.loadCategory(categoryData, guild, context);
+            context.categories.set(index, category);
+            context.checkpoint();
+            if (!context.options.dryRun) {
+                console.log(
+                    gradient(['#ff4500', '#ffa500', '#ff6347'])(
+                        t('categorycreate') + category.name
+                    )
+                );
+            }
+        } catch (err) {
+            console.error(`Error loading category ${categoryData.name}:`, err);
+            context.warnings.push(`Could not restore category ${categoryData.name}: ${err}`);
+        }
+    }
+
+    return [...context.categories.values()];
 };
 
 /**
- * Restore channels
+ * Restore channels, under the categories restored before
  */
 export const loadChannels = async (
     guild: Guild,
     backupData: BackupData,
-    options: LoadOptions
-): Promise<unknown[]> => {
-    const tasks: Promise<unknown>[] = [];
-
-    for (const categoryData of backupData.channels.categories) {
-        tasks.push(
-            (async () => {
-                try {
-                    const category = await util.loadCategory(categoryData, guild);
-                    console.log(
-                        gradient(['#ff4500', '#ffa500', '#ff6347'])(
-                            t('categorycreate') + category.name
-                        )
-                    );
-
-                    for (const channelData of categoryData.children) {
-                        try {
-                            await util.loadChannel(channelData, guild, category, options);
-                        } catch (err) {
-                            console.error(`Error loading channel ${channelData.name}:`, err);
-                        }
-                    }
-                } catch (err) {
-                    console.error(`Error loading category ${categoryData.name}:`, err);
-                }
-            })()
-        );
+    context: RestoreContext
+): Promise<void> => {
+    for (const [index, categoryData] of backupData.channels.categories.entries()) {
+        const category = context.categories.get(index);
+        if (!category) {
+            context.warnings.push(
+                `Skipped ${categoryData.children.length} channels of the missing category ${categoryData.name}`
+            );
+            continue;
+        }
+
+        for (const [childIndex, channelData] of categoryData.children.entries()) {
+            const key = `${index}/${childIndex}`;
+            if (context.channels.has(key)) continue;
+
+            try {
+                await util.loadChannel(channelData, guild, category, context, key);
+            } catch (err) {
+                console.error(`Error loading channel ${channelData.name}:`, err);
+            }
+        }
     }
 
-    for (const channelData of backupData.channels.others) {
-        tasks.push(
-            (async () => {
-                try {
-                    await util.loadChannel(channelData, guild, null, options);
-                } catch (err) {
-                    console.error(
-                        `Error loading other channel ${channelData.name}:`,
-                        err
-                    );
-                }
-            })()
-        );
+    for (const [index, channelData] of backupData.channels.others.entries()) {
+        const key = `others/${index}`;
+        if (context.channels.has(key)) continue;
+
+        try {
+            await util.loadChannel(channelData, guild, null, context, key);
+        } catch (err) {
+            console.error(
+                `Error loading other channel ${channelData.name}:`,
+                err
+            );
+        }
     }
+};
 
-    return Promise.all(tasks);
+/**
+ * Finds a channel by name, preferring the ones this restore created over older ones with the same name
+ */
+const findRestoredChannel = (
+    guild: Guild,
+    context: RestoreContext,
+    predicate: (channel: GuildChannel) => boolean
+): GuildChannel => {
+    return [...context.channels.values()].find(predicate)
+        ?? (guild.channels.cache.find((ch) => !context.cleared.has(ch.id) && predicate(ch as GuildChannel)) as GuildChannel);
 };
 
 /**
  * Restore AFK
  */
-export const loadAFK = (guild: Guild, backupData: BackupData): Promise<Guild[]> => {
+export const loadAFK = (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Guild[]> => {
     const tasks: Promise<Guild>[] = [];
 
     if (backupData.afk) {
-        const afkChannel = guild.channels.cache.find(
+        const afkChannel = findRestoredChannel(
+            guild,
+            context,
             (ch) =>
                 ch.name === backupData.afk.name &&
                 ch.type === 'GUILD_VOICE'
         ) as VoiceChannel;
 
         if (afkChannel) {
-            tasks.push(guild.setAFKChannel(afkChannel));
-            tasks.push(guild.setAFKTimeout(backupData.afk.timeout));
+            tasks.push(perform(context, { action: 'edit', entity: 'guild', name: 'afkChannel', details: afkChannel.name },
+                () => guild.setAFKChannel(afkChannel)));
+            tasks.push(perform(context, { action: 'edit', entity: 'guild', name: 'afkTimeout', details: String(backupData.afk.timeout) },
+                () => guild.setAFKTimeout(backupData.afk.timeout)));
+        } else {
+            context.warnings.push(`AFK channel ${backupData.afk.name} was not found`);
         }
     }
 
@@ -174,25 +426,171 @@ export const loadAFK = (guild: Guild, backupData: BackupData): Promise<Guild[]>
 };
 
 /**
- * Restore emojis
+ * Restore the channels the guild settings point at: system, rules, public updates and safety alerts
  */
-export const loadEmojis = (guild: Guild, backupData: BackupData): Promise<Emoji[]> => {
-    const emojiPromises: Promise<Emoji>[] = [];
-
-    for (const emoji of backupData.emojis) {
-        if (emoji.url) {
-            emojiPromises.push(guild.emojis.create(emoji.url, emoji.name));
-        } else if (emoji.base64) {
-            emojiPromises.push(
-                guild.emojis.create(
-                    Buffer.from(emoji.base64, 'base64'),
-                    emoji.name
-                )
+export const loadSettingChannels = (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Guild[]> => {
+    const tasks: Promise<Guild>[] = [];
+
+    const setChannel = (
+        name: string,
+        channelName: string | null | undefined,
+        communityOnly: boolean,
+        write: (channel: TextChannel) => Promise<Guild>
+    ) => {
+        if (!channelName) return;
+        if (communityOnly && !guild.features.includes('COMMUNITY')) {
+            context.warnings.push(`The ${name} was not restored, the guild is not a community`);
+            return;
+        }
+
+        const channel = findRestoredChannel(
+            guild,
+            context,
+            (ch) => ch.name === channelName && ch.type === 'GUILD_TEXT'
+        ) as TextChannel;
+        if (!channel) {
+            context.warnings.push(`The ${name} ${channelName} was not found`);
+            return;
+        }
+
+        tasks.push(perform(context, { action: 'edit', entity: 'guild', name, details: channel.name },
+            () => write(channel)));
+    };
+
+    setChannel('systemChannel', backupData.systemChannel, false, (ch) => guild.setSystemChannel(ch));
+    setChannel('rulesChannel', backupData.rulesChannel, true, (ch) => guild.setRulesChannel(ch));
+    setChannel('publicUpdatesChannel', backupData.publicUpdatesChannel, true, (ch) => guild.setPublicUpdatesChannel(ch));
+    setChannel('safetyAlertsChannel', backupData.safetyAlertsChannel, true, (ch) => guild.setSafetyAlertsChannel(ch));
+
+    return Promise.all(tasks);
+};
+
+/**
+ * Returns the restored roles allowed to use an emoji.
+ * Names are only trusted for roles the restore did not come across.
+ */
+const resolveEmojiRoles = (emojiData: EmojiData, guild: Guild, context: RestoreContext): Role[] => {
+    const roles: Role[] = [];
+    for (const roleData of emojiData.roles) {
+        const role = context.roleIds.has(roleData.roleId)
+            ? context.roleIds.get(roleData.roleId)
+            : guild.roles.cache.find((r) => r.name === roleData.roleName && !context.cleared.has(r.id));
+        if (role) roles.push(role);
+        else context.warnings.push(`Role ${roleData.roleName} of emoji ${emojiData.name} could not be resolved`);
+    }
+    return roles;
+};
+
+/**
+ * Restore emojis, as many as the static and animated slots of the guild have room for.
+ * They are created one after the other so they keep the order of the backup.
+ */
+export const loadEmojis = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Emoji[]> => {
+    const limit = getEmojiLimit(guild);
+    const existing = guild.emojis.cache.filter((emoji) => !context.cleared.has(emoji.id));
+    const animated = existing.filter((emoji) => emoji.animated).size;
+    const free = {
+        static: limit - (existing.size - animated),
+        animated: limit - animated
+    };
+    const emojis: Emoji[] = [];
+
+    for (const [index, emojiData] of backupData.emojis.entries()) {
+        if (context.emojis.has(index)) continue;
+        if (!emojiData.url && !emojiData.base64) continue;
+
+        const slot = emojiData.animated ? 'animated' : 'static';
+        if (free[slot] <= 0) {
+            context.skippedEmojis.push(emojiData.name);
+            continue;
+        }
+
+        try {
+            const attachment = emojiData.url ?? Buffer.from(emojiData.base64, 'base64');
+            const roles = resolveEmojiRoles(emojiData, guild, context);
+            const emoji = await perform(
+                context,
+                { action: 'create', entity: 'emoji', name: emojiData.name },
+                () => guild.emojis.create(attachment, emojiData.name, { roles }),
+                { name: emojiData.name, animated: emojiData.animated }
+            );
+            free[slot]--;
+            context.emojis.set(index, emoji);
+            context.checkpoint();
+            recordOutcome(context, 'emoji', emojiData.name);
+            emojis.push(emoji);
+        } catch (err) {
+            recordOutcome(context, 'emoji', emojiData.name, err);
+            context.warnings.push(`Could not restore emoji ${emojiData.name}: ${err}`);
+        }
+    }
+
+    if (context.skippedEmojis.length) {
+        context.warnings.push(
+            `Skipped ${context.skippedEmojis.length} emojis over the limit of ${limit} static and ${limit} animated ` +
+                `emojis of the boost tier: ${context.skippedEmojis.join(', ')}`
+        );
+    }
+
+    return emojis;
+};
+
+/**
+ * Restore stickers, as many as the boost tier of the guild has room for
+ */
+export const loadStickers = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Sticker[]> => {
+    const limit = getStickerLimit(guild);
+    let free = limit - guild.stickers.cache.filter((sticker) => !context.cleared.has(sticker.id)).size;
+    const stickers: Sticker[] = [];
+
+    for (const [index, stickerData] of backupData.stickers.entries()) {
+        if (context.stickers.has(index)) continue;
+
+        if (free <= 0) {
+            context.skippedStickers.push(stickerData.name);
+            continue;
+        }
+
+        try {
+            const file = stickerData.base64 ? Buffer.from(stickerData.base64, 'base64') : stickerData.url;
+            const sticker = await perform(
+                context,
+                { action: 'create', entity: 'sticker', name: stickerData.name },
+                () => guild.stickers.create(file, stickerData.name, stickerData.tags, {
+                    description: stickerData.description
+                }),
+                { name: stickerData.name }
             );
+            free--;
+            context.stickers.set(index, sticker);
+            context.checkpoint();
+            recordOutcome(context, 'sticker', stickerData.name);
+            stickers.push(sticker);
+        } catch (err) {
+            recordOutcome(context, 'sticker', stickerData.name, err);
         }
     }
 
-    return Promise.all(emojiPromises);
+    if (context.skippedStickers.length) {
+        context.warnings.push(
+            `Skipped ${context.skippedStickers.length} stickers over the limit of ${limit} of the boost tier: ` +
+                context.skippedStickers.join(', ')
+        );
+    }
+
+    return stickers;
 };
 
 /**
@@ -200,16 +598,28 @@ export const loadEmojis = (guild: Guild, backupData: BackupData): Promise<Emoji[
  */
 export const loadEmbedChannel = (
     guild: Guild,
-    backupData: BackupData
+    backupData: BackupData,
+    context: RestoreContext
 ): Promise<Guild[]> => {
     if (!backupData.widget?.channel) return Promise.resolve([]);
 
+    const widgetChannel = findRestoredChannel(
+        guild,
+        context,
+        (ch) => ch.name === backupData.widget.channel
+    );
+    if (!widgetChannel) {
+        context.warnings.push(`Widget channel ${backupData.widget.channel} was not found`);
+    }
+
     return Promise.all([
-        guild.setWidgetSettings({
-            enabled: backupData.widget.enabled,
-            channel: guild.channels.cache.find(
-                (ch) => ch.name === backupData.widget.channel
-            )
-        })
+        perform(
+            context,
+            { action: 'edit', entity: 'guild', name: 'widget', details: widgetChannel?.name },
+            () => guild.setWidgetSettings({
+                enabled: Boolean(backupData.widget.enabled),
+                channel: widgetChannel as TextChannel
+            })
+        )
     ]);
 };
@@ -0,0 +1,136 @@
+import type { BackupData } from './types';
+
+/**
+ * Version of the backup format written by create.
+ * Bump it together with a new entry in `migrations` whenever the format changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+interface Migration {
+    /** The schema version this migration upgrades the backup to */
+    version: number;
+    migrate: (backup: any) => void;
+}
+
+// Channel types written by backups made with discord.js v12
+const LEGACY_CHANNEL_TYPES: Record<string, string> = {
+    text: 'GUILD_TEXT',
+    news: 'GUILD_NEWS',
+    voice: 'GUILD_VOICE',
+    category: 'GUILD_CATEGORY'
+};
+
+/**
+ * The migrations run before the validator, so they skip anything that is not shaped like a
+ * backup and leave it for the validator to report with its path
+ */
+const isObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The entries of a list that are objects, none when it is not a list
+const objectsOf = (list: any): any[] => (Array.isArray(list) ? list.filter(isObject) : []);
+
+// Only a missing field gets a default, a field that is present but wrong stays as it is
+const setDefault = (owner: any, key: string, value: any) => {
+    if (owner[key] === undefined) owner[key] = value;
+};
+
+/**
+ * Calls fn for every channel of the backup, in categories or not
+ */
+const forEachChannel = (backup: any, fn: (channel: any) => void) => {
+    if (!isObject(backup.channels)) return;
+    objectsOf(backup.channels.categories).forEach((category) => objectsOf(category.children).forEach(fn));
+    objectsOf(backup.channels.others).forEach(fn);
+};
+
+const migrations: Migration[] = [
+    {
+        // Backups written before the schema was versioned
+        version: 1,
+        migrate: (backup) => {
+            setDefault(backup, 'channels', {});
+            if (isObject(backup.channels)) {
+                setDefault(backup.channels, 'categories', []);
+                setDefault(backup.channels, 'others', []);
+            }
+            setDefault(backup, 'roles', []);
+            setDefault(backup, 'bans', []);
+            setDefault(backup, 'emojis', []);
+            setDefault(backup, 'widget', { enabled: false, channel: null });
+
+            for (const category of objectsOf(backup.channels?.categories)) {
+                setDefault(category, 'permissions', []);
+                setDefault(category, 'children', []);
+            }
+
+            forEachChannel(backup, (channel) => {
+                channel.type = LEGACY_CHANNEL_TYPES[channel.type] ?? channel.type;
+                setDefault(channel, 'permissions', []);
+                if (channel.type === 'GUILD_TEXT' || channel.type === 'GUILD_NEWS') {
+                    setDefault(channel, 'nsfw', false);
+                    setDefault(channel, 'isNews', channel.type === 'GUILD_NEWS');
+                    setDefault(channel, 'messages', []);
+                    setDefault(channel, 'threads', []);
+                }
+            });
+
+            for (const role of objectsOf(backup.roles)) {
+                setDefault(role, 'isEveryone', role.name === '@everyone');
+            }
+        }
+    },
+    {
+        // Overwrites gained a type when member overwrites were added, older ones are all role overwrites
+        version: 2,
+        migrate: (backup) => {
+            const setType = (permission: any) => setDefault(permission, 'type', 'role');
+            objectsOf(backup.channels?.categories)
+                .forEach((category) => objectsOf(category.permissions).forEach(setType));
+            forEachChannel(backup, (channel) => objectsOf(channel.permissions).forEach(setType));
+        }
+    },
+    {
+        // Stickers were added to the backup
+        version: 3,
+        migrate: (backup) => {
+            setDefault(backup, 'stickers', []);
+        }
+    },
+    {
+        // Emojis record whether they are animated and which roles may use them
+        version: 4,
+        migrate: (backup) => {
+            for (const emoji of objectsOf(backup.emojis)) {
+                // Animated emojis are GIFs, their base64 starts with the encoded "GIF8" signature
+                setDefault(emoji, 'animated',
+                    /\.gif(\?|$)/.test(emoji.url ?? '') || String(emoji.base64 ?? '').startsWith('R0lGOD'));
+                setDefault(emoji, 'roles', []);
+            }
+        }
+    }
+];
+
+/**
+ * Upgrades a backup written by any previous version to the current schema
+ * @param {any} backup The parsed backup file
+ * @returns {BackupData} The same backup, migrated in place
+ */
+export function migrateBackup(backup: any): BackupData {
+    if (!isObject(backup)) return backup;
+
+    const version = typeof backup.schemaVersion === 'number' ? backup.schemaVersion : 0;
+
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(
+            `Backup schema version ${version} is newer than the supported version ${CURRENT_SCHEMA_VERSION}`
+        );
+    }
+
+    for (const migration of migrations) {
+        if (migration.version <= version) continue;
+        migration.migrate(backup);
+        backup.schemaVersion = migration.version;
+    }
+
+    return backup;
+}
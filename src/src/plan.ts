@@ -0,0 +1,237 @@
+import type { Guild } from 'discord.js-selfbot-v13';
+import type {
+    BackupData,
+    LoadOptions,
+    PlannedAction,
+    RestoreContext,
+    RestoreResult,
+    RestoreStepName,
+    RestoreStepResult
+} from './types';
+
+import * as loadMaster from './load';
+import { createScheduler } from './scheduler';
+import * as syncMaster from './sync';
+
+export interface RestoreStep {
+    name: RestoreStepName;
+    /** Steps that must have succeeded before this one runs */
+    dependsOn: RestoreStepName[];
+    run: () => Promise<unknown>;
+}
+
+/**
+ * Creates the empty state shared by the steps of one restore
+ */
+export function createRestoreContext(options: LoadOptions): RestoreContext {
+    return {
+        options,
+        roles: new Map(),
+        roleIds: new Map(),
+        categories: new Map(),
+        channels: new Map(),
+        emojis: new Map(),
+        stickers: new Map(),
+        skippedMemberOverwrites: [],
+        unresolvedOverwrites: [],
+        cleared: new Set(),
+        skippedEmojis: [],
+        skippedStickers: [],
+        scheduler: createScheduler(options.concurrency),
+        plan: [],
+        counts: {
+            role: { created: 0, failed: 0 },
+            category: { created: 0, failed: 0 },
+            channel: { created: 0, failed: 0 },
+            thread: { created: 0, failed: 0 },
+            emoji: { created: 0, failed: 0 },
+            sticker: { created: 0, failed: 0 }
+        },
+        errors: [],
+        warnings: [],
+        checkpoint: () => {}
+    };
+}
+
+/**
+ * Builds the ordered list of restore steps.
+ * Roles come before anything that resolves overwrites or emoji restrictions by role, emojis
+ * before the forum tags that use them, and channels before the guild settings that point at them.
+ */
+export function buildRestorePlan(
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): RestoreStep[] {
+    // Sync mode reconciles with what is already in the guild instead of creating everything
+    const sync = Boolean(context.options.sync);
+
+    return [
+        {
+            name: 'config',
+            dependsOn: [],
+            run: () => loadMaster.loadConfig(guild, backupData, context)
+        },
+        {
+            name: 'roles',
+            dependsOn: [],
+            run: () => sync
+                ? syncMaster.syncRoles(guild, backupData, context)
+                : loadMaster.loadRoles(guild, backupData, context)
+        },
+        {
+            name: 'rolePositions',
+            dependsOn: ['roles'],
+            run: () => loadMaster.loadRolePositions(guild, backupData, context)
+        },
+        {
+            name: 'emojis',
+            dependsOn: ['roles'],
+            run: () => sync
+                ? syncMaster.syncEmojis(guild, backupData, context)
+                : loadMaster.loadEmojis(guild, backupData, context)
+        },
+        {
+            name: 'stickers',
+            dependsOn: [],
+            run: () => sync
+                ? syncMaster.syncStickers(guild, backupData, context)
+                : loadMaster.loadStickers(guild, backupData, context)
+        },
+        {
+            name: 'categories',
+            dependsOn: ['roles'],
+            run: () => sync
+                ? syncMaster.syncCategories(guild, backupData, context)
+                : loadMaster.loadCategories(guild, backupData, context)
+        },
+        {
+            name: 'channels',
+            dependsOn: ['roles', 'categories'],
+            run: () => sync
+                ? syncMaster.syncChannels(guild, backupData, context)
+                : loadMaster.loadChannels(guild, backupData, context)
+        },
+        {
+            name: 'guildSettings',
+            dependsOn: ['channels'],
+            run: () => Promise.all([
+                loadMaster.loadAFK(guild, backupData, context),
+                loadMaster.loadEmbedChannel(guild, backupData, context),
+                loadMaster.loadSettingChannels(guild, backupData, context)
+            ])
+        }
+    ];
+}
+
+const countFailed = (context: RestoreContext) =>
+    Object.values(context.counts).reduce((total, count) => total + count.failed, 0);
+
+/**
+ * Runs the steps one after the other. A step whose dependencies did not succeed is skipped.
+ * @returns {Promise<RestoreStepResult[]>} The result of every step, in the order they ran
+ */
+export async function runRestorePlan(
+    steps: RestoreStep[],
+    context: RestoreContext
+): Promise<RestoreStepResult[]> {
+    const results = new Map<RestoreStepName, RestoreStepResult>();
+
+    for (const step of steps) {
+        const missing = step.dependsOn.filter((name) => !results.has(name));
+        if (missing.length) {
+            throw new Error(`Restore step ${step.name} is planned before ${missing.join(', ')}`);
+        }
+
+        if (context.journal?.completedSteps.includes(step.name)) {
+            results.set(step.name, {
+                name: step.name,
+                status: 'resumed',
+                durationMs: 0,
+                warnings: []
+            });
+            continue;
+        }
+
+        // A partial step restored what it could, what depends on it still runs
+        const failed = step.dependsOn.filter(
+            (name) => !['success', 'partial', 'resumed'].includes(results.get(name).status)
+        );
+        if (failed.length) {
+            results.set(step.name, {
+                name: step.name,
+                status: 'skipped',
+                durationMs: 0,
+                error: `Skipped because ${failed.join(', ')} did not succeed`,
+                warnings: []
+            });
+            continue;
+        }
+
+        context.warnings = [];
+        context.options.onProgress?.({ type: 'stepStart', step: step.name });
+        const start = Date.now();
+        const failedBefore = countFailed(context);
+        try {
+            await step.run();
+            // A partial step runs again on resume, and only creates what is still missing
+            const failedEntities = countFailed(context) - failedBefore;
+            if (!failedEntities) context.journal?.completedSteps.push(step.name);
+            context.checkpoint();
+            results.set(step.name, {
+                name: step.name,
+                status: failedEntities ? 'partial' : 'success',
+                durationMs: Date.now() - start,
+                error: failedEntities ? `${failedEntities} entities could not be restored` : undefined,
+                warnings: context.warnings
+            });
+        } catch (err) {
+            console.error(`Error in restore step ${step.name}:`, err);
+            context.errors.push(`${step.name}: ${err}`);
+            results.set(step.name, {
+                name: step.name,
+                status: 'failed',
+                durationMs: Date.now() - start,
+                error: String(err),
+                warnings: context.warnings
+            });
+        }
+        context.options.onProgress?.({ type: 'stepEnd', step: step.name });
+    }
+
+    return [...results.values()];
+}
+
+const ACTION_SYMBOLS: Record<PlannedAction['action'], string> = {
+    create: '+',
+    edit: '~',
+    delete: '-'
+};
+
+/**
+ * Formats the result of a dry run as readable lines
+ */
+export function formatRestorePlan(result: RestoreResult): string {
+    const lines = (result.plan ?? []).map((action) =>
+        `${ACTION_SYMBOLS[action.action]} ${action.action} ${action.entity} ${action.name}` +
+        (action.details ? ` (${action.details})` : '')
+    );
+
+    for (const overwrite of result.unresolvedOverwrites) {
+        lines.push(`! unresolved overwrite of role ${overwrite.roleName} on ${overwrite.channel}`);
+    }
+    for (const overwrite of result.skippedMemberOverwrites) {
+        lines.push(`! skipped overwrite of member ${overwrite.username ?? overwrite.userId} on ${overwrite.channel}`);
+    }
+    for (const emoji of result.skippedEmojis) {
+        lines.push(`! skipped emoji ${emoji} over the limit of the boost tier`);
+    }
+    for (const sticker of result.skippedStickers) {
+        lines.push(`! skipped sticker ${sticker} over the limit of the boost tier`);
+    }
+    for (const step of result.steps) {
+        for (const warning of step.warnings) lines.push(`! ${step.name}: ${warning}`);
+    }
+
+    return lines.join('\n');
+}
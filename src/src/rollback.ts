@@ -0,0 +1,62 @@
+import type { Guild, Snowflake } from 'discord.js-selfbot-v13';
+import type { RestoreScheduler } from './types';
+
+export interface GuildEntityIds {
+    roles: Set<Snowflake>;
+    channels: Set<Snowflake>;
+    emojis: Set<Snowflake>;
+    stickers: Set<Snowflake>;
+}
+
+/**
+ * Collects the IDs of everything in the guild, to tell afterwards what a restore created
+ */
+export function collectEntityIds(guild: Guild): GuildEntityIds {
+    return {
+        roles: new Set(guild.roles.cache.keys()),
+        channels: new Set(guild.channels.cache.keys()),
+        emojis: new Set(guild.emojis.cache.keys()),
+        stickers: new Set(guild.stickers.cache.keys())
+    };
+}
+
+/**
+ * Deletes every role, channel, emoji and sticker that was not in the guild when its IDs were collected
+ * @returns {Promise<string[]>} The entities that could not be deleted
+ */
+export async function deleteCreatedEntities(
+    guild: Guild,
+    existing: GuildEntityIds,
+    scheduler: RestoreScheduler
+): Promise<string[]> {
+    const errors: string[] = [];
+    const tryDelete = (entity: string, name: string, remove: () => Promise<unknown>) =>
+        scheduler.schedule(`delete ${entity}`, remove).catch((err) => {
+            errors.push(`Could not delete the ${entity} ${name}: ${err}`);
+        });
+
+    // Channels go before their categories, threads are deleted along with their channel
+    const channels = guild.channels.cache
+        .filter((channel) => !existing.channels.has(channel.id) && !channel.isThread())
+        .sort((a, b) => Number(a.type === 'GUILD_CATEGORY') - Number(b.type === 'GUILD_CATEGORY'));
+    for (const channel of channels.values()) {
+        await tryDelete('channel', channel.name, () => channel.delete());
+    }
+
+    for (const role of guild.roles.cache.values()) {
+        if (existing.roles.has(role.id) || role.managed || role.id === guild.id) continue;
+        await tryDelete('role', role.name, () => role.delete());
+    }
+
+    for (const emoji of guild.emojis.cache.values()) {
+        if (existing.emojis.has(emoji.id)) continue;
+        await tryDelete('emoji', emoji.name, () => emoji.delete());
+    }
+
+    for (const sticker of guild.stickers.cache.values()) {
+        if (existing.stickers.has(sticker.id)) continue;
+        await tryDelete('sticker', sticker.name, () => sticker.delete());
+    }
+
+    return errors;
+}
@@ -0,0 +1,107 @@
+import type { RestoreScheduler } from './types';
+
+/* ===========================
+   LIMITS
+=========================== */
+
+const DEFAULT_CONCURRENCY = 2;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+interface RouteQueue {
+    active: number;
+    waiting: Array<() => void>;
+    /** Nothing starts on the route before this time, set when the API asked to wait */
+    resumeAt: number;
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+/**
+ * Returns how long to wait before retrying a failed call, or null when retrying cannot help.
+ * Server and network errors are only retried for idempotent calls, since the API may have
+ * applied a create before failing and retrying it would make a duplicate.
+ */
+function getRetryDelay(err: any, attempt: number, idempotent: boolean): number | null {
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+
+    // Thrown by discord.js when it is told to reject instead of waiting a rate limit out
+    if (err?.name === 'RateLimitError') return Number(err.timeout) || backoff;
+
+    const status = err?.httpStatus ?? err?.status;
+    if (status === 429) {
+        const retryAfter = Number(err?.retryAfter ?? err?.requestData?.json?.retry_after);
+        return retryAfter > 0 ? retryAfter * 1000 : backoff;
+    }
+    if (!idempotent) return null;
+    if (status >= 500) return backoff;
+
+    // Aborted requests and network errors never reached the API
+    if (err?.name === 'AbortError' || ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN'].includes(err?.code)) return backoff;
+
+    return null;
+}
+
+/**
+ * Creates the queue every write call of one restore goes through.
+ * Each route runs a few calls at once, waits out the retry-after the API returns
+ * and retries a failed call on its own, so a phase is never run twice.
+ * @param {number} concurrency How many calls of the same route run at once
+ */
+export function createScheduler(
+    concurrency: number = DEFAULT_CONCURRENCY,
+    maxRetries: number = MAX_RETRIES
+): RestoreScheduler {
+    const routes = new Map<string, RouteQueue>();
+    // A global rate limit holds back every route
+    let globalResumeAt = 0;
+
+    const getQueue = (route: string): RouteQueue => {
+        if (!routes.has(route)) routes.set(route, { active: 0, waiting: [], resumeAt: 0 });
+        return routes.get(route);
+    };
+
+    const acquire = async (queue: RouteQueue) => {
+        if (queue.active < concurrency) {
+            queue.active++;
+            return;
+        }
+        // The slot is handed over by release, active stays the same
+        await new Promise<void>((resolve) => queue.waiting.push(resolve));
+    };
+
+    const release = (queue: RouteQueue) => {
+        const next = queue.waiting.shift();
+        if (next) next();
+        else queue.active--;
+    };
+
+    const run = async <T>(queue: RouteQueue, task: () => Promise<T>, idempotent: boolean): Promise<T> => {
+        for (let attempt = 0; ; attempt++) {
+            await wait(Math.max(queue.resumeAt, globalResumeAt) - Date.now());
+            try {
+                return await task();
+            } catch (err) {
+                const delay = getRetryDelay(err, attempt, idempotent);
+                if (delay === null || attempt >= maxRetries) throw err;
+
+                const resumeAt = Date.now() + delay;
+                if ((err as { global?: boolean }).global) globalResumeAt = Math.max(globalResumeAt, resumeAt);
+                else queue.resumeAt = Math.max(queue.resumeAt, resumeAt);
+            }
+        }
+    };
+
+    return {
+        async schedule<T>(route: string, task: () => Promise<T>, idempotent = true): Promise<T> {
+            const queue = getQueue(route);
+            await acquire(queue);
+            try {
+                return await run(queue, task, idempotent);
+            } finally {
+                release(queue);
+            }
+        }
+    };
+}
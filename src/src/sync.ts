@@ -0,0 +1,457 @@
+import type {
+    CategoryChannel,
+    ChannelData,
+    Emoji,
+    ForumChannel,
+    Guild,
+    GuildChannel,
+    OverwriteData,
+    PermissionResolvable,
+    Role,
+    Snowflake,
+    StageChannel,
+    Sticker,
+    TextChannel,
+    VoiceChannel
+} from 'discord.js-selfbot-v13';
+import type {
+    BackupData,
+    ChannelPermissionsData,
+    ForumChannelData,
+    GuildChannelData,
+    RestoreContext,
+    RestoreEntity,
+    RoleData,
+    StageChannelData,
+    TextChannelData,
+    ThreadChannelData,
+    VoiceChannelData
+} from './types';
+
+import { createRole, loadEmojis, loadStickers, trackRole } from './load';
+import util, {
+    getRestoredChannelType,
+    getSafeBitrate,
+    loadThreads,
+    perform,
+    recordOutcome,
+    resolveForumEmoji,
+    resolveOverwrites
+} from './util';
+
+/* ===========================
+   MATCHING
+=========================== */
+
+/**
+ * Pairs backup entries with existing entries that have the same key.
+ * Entries are paired in order, so duplicate names are matched one to one instead of all onto the first.
+ * @returns {Map<number, E>} The matched existing entry by index of the backup entry
+ */
+function matchInOrder<D, E>(
+    wanted: D[],
+    existing: E[],
+    keyOfWanted: (item: D) => string,
+    keyOfExisting: (item: E) => string,
+    matches: Map<number, E> = new Map()
+): Map<number, E> {
+    const matched = new Set(matches.values());
+    const queues = new Map<string, E[]>();
+
+    for (const item of existing) {
+        if (matched.has(item)) continue;
+        const key = keyOfExisting(item);
+        queues.set(key, [...(queues.get(key) ?? []), item]);
+    }
+
+    wanted.forEach((item, index) => {
+        if (matches.has(index)) return;
+        const match = queues.get(keyOfWanted(item))?.shift();
+        if (match) matches.set(index, match);
+    });
+
+    return matches;
+}
+
+/**
+ * Returns the existing entries no backup entry was matched to
+ */
+const unmatched = <E>(existing: E[], matches: Map<number, E>): E[] => {
+    const matched = new Set(matches.values());
+    return existing.filter((item) => !matched.has(item));
+};
+
+/**
+ * Deletes something the backup does not have. A failed delete is counted and warned about,
+ * so it never fails the step and the steps that depend on it.
+ */
+const deleteExtra = (context: RestoreContext, entity: RestoreEntity, name: string, write: () => Promise<unknown>) =>
+    perform(context, { action: 'delete', entity, name }, write).then(
+        () => {},
+        (err) => {
+            recordOutcome(context, entity, name, err);
+            context.warnings.push(`Could not delete ${entity} ${name}: ${err}`);
+        }
+    );
+
+/* ===========================
+   OVERWRITES
+=========================== */
+
+const overwritesDiffer = (channel: GuildChannel, overwrites: OverwriteData[]): boolean => {
+    const current = channel.permissionOverwrites.cache;
+    if (current.size !== overwrites.length) return true;
+
+    return overwrites.some((overwrite) => {
+        const existing = current.get(overwrite.id as Snowflake);
+        return !existing
+            || existing.allow.bitfield !== BigInt(overwrite.allow as PermissionResolvable as bigint)
+            || existing.deny.bitfield !== BigInt(overwrite.deny as PermissionResolvable as bigint);
+    });
+};
+
+/**
+ * Replaces the overwrites of an existing channel, only when they differ from the backup
+ */
+async function syncOverwrites(
+    channel: GuildChannel,
+    permissions: ChannelPermissionsData[],
+    guild: Guild,
+    context: RestoreContext
+): Promise<void> {
+    const overwrites = await resolveOverwrites(permissions, guild, channel.name, context);
+    if (!overwritesDiffer(channel, overwrites)) return;
+
+    await perform(
+        context,
+        { action: 'edit', entity: 'overwrite', name: channel.name, details: `${overwrites.length} overwrites` },
+        () => channel.permissionOverwrites.set(overwrites)
+    );
+}
+
+/* ===========================
+   ROLES
+=========================== */
+
+/**
+ * Edits an existing role, only when it differs from the backup
+ */
+const syncRole = (role: Role, roleData: RoleData, context: RestoreContext): Promise<Role> => {
+    const changed = role.hexColor.toLowerCase() !== roleData.color.toLowerCase()
+        || role.hoist !== roleData.hoist
+        || role.mentionable !== roleData.mentionable
+        || role.permissions.bitfield.toString() !== roleData.permissions;
+
+    if (!changed) return Promise.resolve(role);
+
+    return perform(
+        context,
+        { action: 'edit', entity: 'role', name: role.name, details: `permissions ${roleData.permissions}` },
+        () => role.edit({
+            color: roleData.color,
+            hoist: roleData.hoist,
+            permissions: BigInt(roleData.permissions),
+            mentionable: roleData.mentionable
+        }),
+        { id: role.id, name: role.name }
+    );
+};
+
+/**
+ * Reconciles the roles of the guild with the backup
+ */
+export const syncRoles = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Role[]> => {
+    const existing = guild.roles.cache
+        .filter((role) => !role.managed && role.id !== guild.id)
+        .sort((a, b) => b.position - a.position)
+        .toJSON();
+    const wanted = backupData.roles
+        .map((roleData, index) => ({ roleData, index }))
+        .filter(({ roleData }) => !roleData.isEveryone)
+        .sort((a, b) => b.roleData.position - a.roleData.position);
+
+    const matches = matchInOrder(wanted, existing, ({ roleData }) => roleData.name, (role) => role.name);
+    const rolePromises: Promise<Role>[] = [];
+
+    wanted.forEach(({ roleData, index }, wantedIndex) => {
+        const role = matches.get(wantedIndex);
+        const rolePromise = role ? syncRole(role, roleData, context) : createRole(guild, roleData, context);
+        rolePromises.push(trackRole(rolePromise, roleData, index, context, role));
+    });
+
+    const everyoneIndex = backupData.roles.findIndex((roleData) => roleData.isEveryone);
+    const everyone = guild.roles.cache.get(guild.id);
+    if (everyoneIndex !== -1 && everyone) {
+        const everyoneData = backupData.roles[everyoneIndex];
+        rolePromises.push(trackRole(syncRole(everyone, everyoneData, context), everyoneData, everyoneIndex, context, everyone));
+    }
+
+    const deletes = context.options.syncDeleteExtra
+        ? unmatched(existing, matches)
+            .filter((role) => role.editable)
+            .map((role) => deleteExtra(context, 'role', role.name, () => role.delete()))
+        : [];
+
+    const [roles] = await Promise.all([Promise.all(rolePromises), Promise.all(deletes)]);
+    return roles.filter(Boolean);
+};
+
+/* ===========================
+   CATEGORIES
+=========================== */
+
+/**
+ * Reconciles the categories of the guild with the backup
+ */
+export const syncCategories = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<CategoryChannel[]> => {
+    const existing = (guild.channels.cache
+        .filter((ch) => ch.type === 'GUILD_CATEGORY')
+        .toJSON() as CategoryChannel[])
+        .sort((a, b) => a.position - b.position);
+
+    const matches = matchInOrder(
+        backupData.channels.categories,
+        existing,
+        (categoryData) => categoryData.name,
+        (category) => category.name
+    );
+
+    for (const [index, categoryData] of backupData.channels.categories.entries()) {
+        try {
+            let category = matches.get(index);
+            if (category) {
+                await syncOverwrites(category, categoryData.permissions, guild, context);
+            } else {
+                category = await util.loadCategory(categoryData, guild, context);
+            }
+            context.categories.set(index, category);
+        } catch (err) {
+            context.warnings.push(`Could not sync category ${categoryData.name}: ${err}`);
+        }
+    }
+
+    if (context.options.syncDeleteExtra) {
+        for (const category of unmatched(existing, matches)) {
+            await deleteExtra(context, 'category', category.name, () => category.delete());
+        }
+    }
+
+    return [...context.categories.values()];
+};
+
+/* ===========================
+   CHANNELS
+=========================== */
+
+/**
+ * Returns the properties of an existing channel that differ from the backup
+ */
+const getChannelChanges = (
+    channel: GuildChannel,
+    channelData: GuildChannelData,
+    parent: CategoryChannel | null,
+    guild: Guild
+): ChannelData => {
+    const changes: ChannelData = {};
+
+    if ((channel.parentId ?? null) !== (parent?.id ?? null)) changes.parent = parent?.id ?? null;
+
+    if (channel.type === 'GUILD_FORUM') {
+        const forum = channel as ForumChannel;
+        const data = channelData as ForumChannelData;
+        if ((forum.topic ?? '') !== (data.topic ?? '')) changes.topic = data.topic ?? null;
+        if (Boolean(forum.nsfw) !== Boolean(data.nsfw)) changes.nsfw = Boolean(data.nsfw);
+        if ((forum.defaultThreadRateLimitPerUser ?? 0) !== (data.defaultThreadRateLimitPerUser ?? 0)) {
+            changes.defaultThreadRateLimitPerUser = data.defaultThreadRateLimitPerUser ?? 0;
+        }
+        if (String(forum.defaultSortOrder ?? null) !== String(data.defaultSortOrder ?? null)) {
+            changes.defaultSortOrder = data.defaultSortOrder as unknown as ChannelData['defaultSortOrder'];
+        }
+        if (String(forum.defaultForumLayout) !== data.defaultForumLayout) {
+            changes.defaultForumLayout = data.defaultForumLayout as unknown as ChannelData['defaultForumLayout'];
+        }
+        const tags = (list: Array<{ name: string; moderated: boolean }>) =>
+            list.map((tag) => `${tag.name}:${tag.moderated}`).join(',');
+        if (tags(forum.availableTags) !== tags(data.availableTags)) {
+            changes.availableTags = data.availableTags.map((tag) => ({
+                name: tag.name,
+                moderated: tag.moderated,
+                emoji: resolveForumEmoji(tag.emoji, guild)
+            }));
+        }
+    } else if (channel.type === 'GUILD_VOICE' || channel.type === 'GUILD_STAGE_VOICE') {
+        const voice = channel as VoiceChannel | StageChannel;
+        const data = channelData as VoiceChannelData | StageChannelData;
+        const bitrate = getSafeBitrate(guild, data.bitrate);
+        if (voice.bitrate !== bitrate) changes.bitrate = bitrate;
+        if (voice.userLimit !== data.userLimit) changes.userLimit = data.userLimit;
+        if ('rtcRegion' in data && (voice.rtcRegion ?? null) !== data.rtcRegion) changes.rtcRegion = data.rtcRegion;
+    } else {
+        const text = channel as TextChannel;
+        const data = channelData as TextChannelData;
+        if ((text.topic ?? '') !== (data.topic ?? '')) changes.topic = data.topic ?? null;
+        if (Boolean(text.nsfw) !== Boolean(data.nsfw)) changes.nsfw = Boolean(data.nsfw);
+        if ((text.rateLimitPerUser ?? 0) !== (data.rateLimitPerUser ?? 0)) {
+            changes.rateLimitPerUser = data.rateLimitPerUser ?? 0;
+        }
+    }
+
+    return changes;
+};
+
+/**
+ * Creates the threads of the backup an existing channel is missing, archived ones included
+ */
+async function syncThreads(channel: GuildChannel, threads: ThreadChannelData[], context: RestoreContext) {
+    if (!threads?.length || (!channel.isText() && channel.type !== 'GUILD_FORUM')) return;
+
+    const manager = (channel as TextChannel | ForumChannel).threads;
+    // Archived threads are only in the cache once fetched
+    await manager.fetchArchived().catch((): null => null);
+    const matches = matchInOrder(threads, manager.cache.toJSON(), (threadData) => threadData.name, (thread) => thread.name);
+
+    const missing = threads.filter((_threadData, index) => !matches.has(index));
+    if (missing.length) await loadThreads(missing, channel, context);
+}
+
+/**
+ * Reconciles the channels of the guild with the backup, under the categories synced before
+ */
+export const syncChannels = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<void> => {
+    const existing = (guild.channels.cache
+        .filter((ch) => ch.type !== 'GUILD_CATEGORY' && !ch.isThread())
+        .toJSON() as GuildChannel[])
+        .sort((a, b) => a.position - b.position);
+
+    const wanted: Array<{ key: string; channelData: GuildChannelData; parent: CategoryChannel | null }> = [];
+    backupData.channels.categories.forEach((categoryData, index) => {
+        const parent = context.categories.get(index);
+        if (!parent) {
+            context.warnings.push(
+                `Skipped ${categoryData.children.length} channels of the missing category ${categoryData.name}`
+            );
+            return;
+        }
+        categoryData.children.forEach((channelData, childIndex) =>
+            wanted.push({ key: `${index}/${childIndex}`, channelData, parent }));
+    });
+    backupData.channels.others.forEach((channelData, index) =>
+        wanted.push({ key: `others/${index}`, channelData, parent: null }));
+
+    // Channels are matched in their own category first, then anywhere so moved channels are kept
+    const matches = matchInOrder(
+        wanted,
+        existing,
+        ({ channelData, parent }) => `${getRestoredChannelType(channelData, guild)}:${channelData.name}:${parent?.id ?? ''}`,
+        (channel) => `${channel.type}:${channel.name}:${channel.parentId ?? ''}`
+    );
+    matchInOrder(
+        wanted,
+        existing,
+        ({ channelData }) => `${getRestoredChannelType(channelData, guild)}:${channelData.name}`,
+        (channel) => `${channel.type}:${channel.name}`,
+        matches
+    );
+
+    for (const [wantedIndex, { key, channelData, parent }] of wanted.entries()) {
+        try {
+            let channel = matches.get(wantedIndex);
+            if (channel) {
+                const changes = getChannelChanges(channel, channelData, parent, guild);
+                if (Object.keys(changes).length) {
+                    await perform(
+                        context,
+                        { action: 'edit', entity: 'channel', name: channel.name, details: Object.keys(changes).join(', ') },
+                        () => channel.edit(changes)
+                    );
+                }
+                await syncOverwrites(channel, channelData.permissions, guild, context);
+                if ('threads' in channelData) await syncThreads(channel, channelData.threads, context);
+            } else {
+                channel = await util.loadChannel(channelData, guild, parent, context, key);
+            }
+            if (channel) context.channels.set(key, channel);
+        } catch (err) {
+            context.warnings.push(`Could not sync channel ${channelData.name}: ${err}`);
+        }
+    }
+
+    if (context.options.syncDeleteExtra) {
+        for (const channel of unmatched(existing, matches)) {
+            await deleteExtra(context, 'channel', channel.name, () => channel.delete());
+        }
+    }
+};
+
+/* ===========================
+   EMOJIS
+=========================== */
+
+/**
+ * Reconciles the emojis of the guild with the backup
+ */
+export const syncEmojis = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Emoji[]> => {
+    const existing = guild.emojis.cache.toJSON();
+    const matches = matchInOrder(backupData.emojis, existing, (emojiData) => emojiData.name, (emoji) => emoji.name);
+
+    // Extra emojis go first, so the slots they take are free for the missing ones
+    if (context.options.syncDeleteExtra) {
+        for (const emoji of unmatched(existing, matches)) {
+            await deleteExtra(context, 'emoji', emoji.name, () => emoji.delete());
+        }
+    }
+
+    const missing = backupData.emojis.filter((_emojiData, index) => !matches.has(index));
+    const created = await loadEmojis(guild, { ...backupData, emojis: missing }, context);
+
+    return [...matches.values(), ...created];
+};
+
+/* ===========================
+   STICKERS
+=========================== */
+
+/**
+ * Reconciles the stickers of the guild with the backup
+ */
+export const syncStickers = async (
+    guild: Guild,
+    backupData: BackupData,
+    context: RestoreContext
+): Promise<Sticker[]> => {
+    const existing = guild.stickers.cache.toJSON();
+    const matches = matchInOrder(
+        backupData.stickers,
+        existing,
+        (stickerData) => stickerData.name,
+        (sticker) => sticker.name
+    );
+
+    // Extra stickers go first, so the room they take is free for the missing ones
+    if (context.options.syncDeleteExtra) {
+        for (const sticker of unmatched(existing, matches)) {
+            await deleteExtra(context, 'sticker', sticker.name, () => sticker.delete());
+        }
+    }
+
+    const missing = backupData.stickers.filter((_stickerData, index) => !matches.has(index));
+    const created = await loadStickers(guild, { ...backupData, stickers: missing }, context);
+
+    return [...matches.values(), ...created];
+};
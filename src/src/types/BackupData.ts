@@ -1,7 +1,14 @@
-import { DefaultMessageNotificationLevel, ExplicitContentFilterLevel, Snowflake, VerificationLevel } from 'discord.js-selfbot-v13';
-import { AfkData, BanData, ChannelsData, EmojiData, RoleData, WidgetData } from './';
+import {
+    DefaultMessageNotificationLevel,
+    ExplicitContentFilterLevel,
+    Snowflake,
+    SystemChannelFlagsString,
+    VerificationLevel
+} from 'discord.js-selfbot-v13';
+import { AfkData, BanData, ChannelsData, EmojiData, RoleData, StickerData, WidgetData } from './';
 
 export interface BackupData {
+    schemaVersion: number;
     name: string;
     iconURL?: string;
     iconBase64?: string;
@@ -10,14 +17,26 @@ export interface BackupData {
     defaultMessageNotifications: DefaultMessageNotificationLevel | number;
     afk?: AfkData;
     widget: WidgetData;
+    description?: string | null;
+    preferredLocale?: string;
+    premiumProgressBarEnabled?: boolean;
+    /** Names of the channels the guild settings point at */
+    systemChannel?: string | null;
+    systemChannelFlags?: SystemChannelFlagsString[];
+    rulesChannel?: string | null;
+    publicUpdatesChannel?: string | null;
+    safetyAlertsChannel?: string | null;
     splashURL?: string;
     splashBase64?: string;
     bannerURL?: string;
     bannerBase64?: string;
+    discoverySplashURL?: string;
+    discoverySplashBase64?: string;
     channels: ChannelsData;
     roles: RoleData[];
     bans: BanData[];
     emojis: EmojiData[];
+    stickers: StickerData[];
     createdTimestamp: number;
     guildID: string;
     id: Snowflake;
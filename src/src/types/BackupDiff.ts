@@ -0,0 +1,35 @@
+import { BackupData } from './';
+
+export type DiffEntity = 'guild' | 'role' | 'category' | 'channel' | 'overwrite' | 'emoji';
+export type DiffChangeType = 'added' | 'removed' | 'renamed' | 'moved' | 'changed';
+
+export interface PermissionNamesChange {
+    /** Permissions present in the newer bitfield only */
+    added: string[];
+    /** Permissions present in the older bitfield only */
+    removed: string[];
+}
+
+export interface DiffChange {
+    entity: DiffEntity;
+    type: DiffChangeType;
+    /** Name of the entity, the newer one when it was renamed */
+    name: string;
+    /** For overwrites, the category or channel they are on */
+    target?: string;
+    /** The setting that changed, for changes of type changed */
+    field?: string;
+    before?: string | number | boolean | null;
+    after?: string | number | boolean | null;
+    /** For roles, the permissions they gained and lost */
+    permissions?: PermissionNamesChange;
+    /** For overwrites, the permissions they allow and deny that changed */
+    allow?: PermissionNamesChange;
+    deny?: PermissionNamesChange;
+}
+
+export interface BackupDiff {
+    from: Pick<BackupData, 'id' | 'name' | 'createdTimestamp'>;
+    to: Pick<BackupData, 'id' | 'name' | 'createdTimestamp'>;
+    changes: DiffChange[];
+}
@@ -0,0 +1,11 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+
+export interface BackupMetadata {
+    id: Snowflake;
+    name: string;
+    guildID: string;
+    createdTimestamp: number;
+    size: number;
+    /** Encrypted backups are listed without being decrypted, so their name and guild are null */
+    locked?: boolean;
+}
@@ -2,7 +2,7 @@ import { TextBasedChannelTypes, VoiceBasedChannelTypes, ThreadChannelTypes } fro
 import { ChannelPermissionsData } from './';
 
 export interface BaseChannelData {
-    type: TextBasedChannelTypes | VoiceBasedChannelTypes | ThreadChannelTypes;
+    type: TextBasedChannelTypes | VoiceBasedChannelTypes | ThreadChannelTypes | 'GUILD_FORUM';
     name: string;
     parent?: string;
     permissions: ChannelPermissionsData[];
@@ -1,7 +1,7 @@
-import { ChannelPermissionsData, TextChannelData, VoiceChannelData } from './';
+import { ChannelPermissionsData, GuildChannelData } from './';
 
 export interface CategoryData {
     name: string;
     permissions: ChannelPermissionsData[];
-    children: Array<TextChannelData | VoiceChannelData>;
+    children: GuildChannelData[];
 }
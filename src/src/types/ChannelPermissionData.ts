@@ -1,5 +1,13 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+
 export interface ChannelPermissionsData {
-    roleName: string;
+    type: 'role' | 'member';
+    /** ID of the role in the source guild, missing in older backups */
+    roleId?: Snowflake;
+    roleName?: string;
+    /** ID of the member, for member overwrites */
+    userId?: Snowflake;
+    username?: string;
     allow: string;
     deny: string;
 }
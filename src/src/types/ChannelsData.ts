@@ -1,6 +1,8 @@
-import { CategoryData, TextChannelData, VoiceChannelData } from './';
+import { CategoryData, ForumChannelData, StageChannelData, TextChannelData, VoiceChannelData } from './';
+
+export type GuildChannelData = TextChannelData | VoiceChannelData | StageChannelData | ForumChannelData;
 
 export interface ChannelsData {
     categories: CategoryData[];
-    others: Array<TextChannelData | VoiceChannelData>;
-}
\ No newline at end of file
+    others: GuildChannelData[];
+}
@@ -5,4 +5,8 @@ export interface CreateOptions {
     jsonBeautify?: boolean;
     doNotBackup?: string[];
     saveImages?: string;
+    /** Saves an archive with every image bundled in it instead of a JSON file, the images are always downloaded */
+    archive?: boolean;
+    /** Encrypts the saved file with the passphrase from BACKUP_PASSPHRASE or the passphrase provider */
+    encrypt?: boolean;
 }
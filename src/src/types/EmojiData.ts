@@ -1,5 +1,16 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+
+export interface EmojiRoleData {
+    /** ID of the role in the source guild */
+    roleId: Snowflake;
+    roleName: string;
+}
+
 export interface EmojiData {
     name: string;
+    animated: boolean;
+    /** Roles allowed to use the emoji, empty when everyone can */
+    roles: EmojiRoleData[];
     url?: string;
     base64?: string;
 }
@@ -0,0 +1,29 @@
+import { BaseChannelData, ThreadChannelData } from './';
+
+export type ForumSortOrder = 'LATEST_ACTIVITY' | 'CREATION_DATE';
+export type ForumLayout = 'NOT_SET' | 'LIST_VIEW' | 'GALLERY_VIEW';
+
+export interface ForumEmojiData {
+    /** The unicode emoji, or the name of a custom emoji of the guild */
+    name: string;
+    custom: boolean;
+}
+
+export interface ForumTagData {
+    name: string;
+    moderated: boolean;
+    emoji: ForumEmojiData | null;
+}
+
+export interface ForumChannelData extends BaseChannelData {
+    nsfw: boolean;
+    /** The post guidelines */
+    topic?: string;
+    availableTags: ForumTagData[];
+    defaultReactionEmoji: ForumEmojiData | null;
+    defaultSortOrder: ForumSortOrder | null;
+    defaultForumLayout: ForumLayout;
+    defaultThreadRateLimitPerUser: number | null;
+    /** The posts of the forum */
+    threads: ThreadChannelData[];
+}
@@ -0,0 +1,12 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+import { BackupDiff, DiffChange } from './';
+
+export type DiffSeverity = 'critical' | 'warning' | 'info';
+
+export interface GuildDrift {
+    /** The backup the guild was compared against */
+    backup: BackupDiff['from'];
+    guildID: Snowflake;
+    /** The changes from the backup to the guild, by how much they matter for its security */
+    changes: Record<DiffSeverity, DiffChange[]>;
+}
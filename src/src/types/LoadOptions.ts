@@ -1,7 +1,22 @@
 import { MessageMentionOptions } from "discord.js-selfbot-v13";
+import { RestoreProgressEvent } from "./";
 
 export interface LoadOptions {
     clearGuildBeforeRestore: boolean;
     maxMessagesPerChannel?: number;
     allowedMentions?: MessageMentionOptions;
+    /** Only plan the restore against the current state of the guild, without any write call */
+    dryRun?: boolean;
+    /** Reconcile the guild with the backup instead of clearing it, keeping what already matches */
+    sync?: boolean;
+    /** In sync mode, also delete roles, channels and emojis that are not in the backup */
+    syncDeleteExtra?: boolean;
+    /** Continue an interrupted restore of the same backup into the same guild (default true) */
+    resume?: boolean;
+    /** How many API calls of the same kind run at once (default 2) */
+    concurrency?: number;
+    /** Snapshot the guild first, and put it back when the restore fails */
+    rollbackOnFailure?: boolean;
+    /** Called as the restore goes, for every step and everything created or failed */
+    onProgress?: (event: RestoreProgressEvent) => void;
 }
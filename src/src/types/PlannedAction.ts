@@ -0,0 +1,6 @@
+export interface PlannedAction {
+    action: 'create' | 'edit' | 'delete';
+    entity: 'guild' | 'role' | 'category' | 'channel' | 'thread' | 'overwrite' | 'emoji' | 'sticker' | 'webhook';
+    name: string;
+    details?: string;
+}
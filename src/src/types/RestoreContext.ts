@@ -0,0 +1,53 @@
+import type { CategoryChannel, Emoji, GuildChannel, Role, Snowflake, Sticker } from 'discord.js-selfbot-v13';
+import {
+    LoadOptions,
+    PlannedAction,
+    RestoreCounts,
+    RestoreJournal,
+    RestoreScheduler,
+    SkippedOverwriteData,
+    UnresolvedOverwriteData
+} from './';
+
+export interface RestoreContext {
+    options: LoadOptions;
+    /** Roles created so far, keyed by their index in the backup */
+    roles: Map<number, Role>;
+    /** Roles created so far, keyed by their ID in the source guild, null when the role could not be restored */
+    roleIds: Map<Snowflake, Role>;
+    /** Categories created so far, keyed by their index in the backup */
+    categories: Map<number, CategoryChannel>;
+    /** Channels created so far, keyed by `<category index>/<child index>` or `others/<index>` */
+    channels: Map<string, GuildChannel>;
+    /** Emojis created so far, keyed by their index in the backup */
+    emojis: Map<number, Emoji>;
+    /** Stickers created so far, keyed by their index in the backup */
+    stickers: Map<number, Sticker>;
+    /** Member overwrites left out because the member is not in the guild */
+    skippedMemberOverwrites: SkippedOverwriteData[];
+    /** Role overwrites left out because the role could not be found */
+    unresolvedOverwrites: UnresolvedOverwriteData[];
+    /**
+     * Entities of the guild deleted by clearing it. A dry run only plans the deletes, so the
+     * later steps leave these out of the guild to plan as if it were empty.
+     */
+    cleared: Set<Snowflake>;
+    /** Names of the emojis left out because the static or animated slots of the guild are full */
+    skippedEmojis: string[];
+    /** Names of the stickers left out because the boost tier of the guild has no room for them */
+    skippedStickers: string[];
+    /** Queue every write call goes through */
+    scheduler: RestoreScheduler;
+    /** Write calls recorded instead of made during a dry run */
+    plan: PlannedAction[];
+    /** Created and failed entities of the whole restore */
+    counts: RestoreCounts;
+    /** Every failure of the whole restore */
+    errors: string[];
+    /** Warnings of the step currently running */
+    warnings: string[];
+    /** Journal of the restore, missing for dry runs and sync mode */
+    journal?: RestoreJournal;
+    /** Saves the progress of the restore, called after everything it creates */
+    checkpoint: () => void;
+}
@@ -0,0 +1,8 @@
+export type RestoreEntity = 'role' | 'category' | 'channel' | 'thread' | 'emoji' | 'sticker';
+
+export interface RestoreCount {
+    created: number;
+    failed: number;
+}
+
+export type RestoreCounts = Record<RestoreEntity, RestoreCount>;
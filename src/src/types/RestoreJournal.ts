@@ -0,0 +1,17 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+import { RestoreStepName } from './';
+
+export interface RestoreJournal {
+    backupID: Snowflake;
+    guildID: Snowflake;
+    startedTimestamp: number;
+    /** Whether the guild was already cleared, so a resumed restore does not wipe it again */
+    cleared: boolean;
+    completedSteps: RestoreStepName[];
+    /** IDs created so far, keyed like the maps of the restore context */
+    roles: Record<number, Snowflake>;
+    categories: Record<number, Snowflake>;
+    channels: Record<string, Snowflake>;
+    emojis: Record<number, Snowflake>;
+    stickers: Record<number, Snowflake>;
+}
@@ -0,0 +1,9 @@
+import { RestoreEntity, RestoreStepName } from './';
+
+export interface RestoreProgressEvent {
+    type: 'stepStart' | 'stepEnd' | 'created' | 'failed';
+    step?: RestoreStepName;
+    entity?: RestoreEntity;
+    name?: string;
+    error?: string;
+}
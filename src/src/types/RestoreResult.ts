@@ -0,0 +1,25 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+import {
+    PlannedAction,
+    RestoreCounts,
+    RestoreStepResult,
+    RollbackResult,
+    SkippedOverwriteData,
+    UnresolvedOverwriteData
+} from './';
+
+export interface RestoreResult {
+    backupID: Snowflake;
+    steps: RestoreStepResult[];
+    counts: RestoreCounts;
+    errors: string[];
+    durationMs: number;
+    skippedMemberOverwrites: SkippedOverwriteData[];
+    unresolvedOverwrites: UnresolvedOverwriteData[];
+    skippedEmojis: string[];
+    skippedStickers: string[];
+    /** Everything the restore would do, only set for dry runs */
+    plan?: PlannedAction[];
+    /** Only set when the restore failed and was rolled back */
+    rollback?: RollbackResult;
+}
@@ -0,0 +1,7 @@
+export interface RestoreScheduler {
+    /**
+     * Queues one API call on its route, and retries it alone when it is rate limited or the API fails.
+     * A call that is not idempotent, like a create, is only retried when it was rate limited.
+     */
+    schedule<T>(route: string, task: () => Promise<T>, idempotent?: boolean): Promise<T>;
+}
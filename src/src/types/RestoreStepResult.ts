@@ -0,0 +1,13 @@
+export type RestoreStepName = 'config' | 'roles' | 'rolePositions' | 'categories' | 'channels' | 'guildSettings' | 'emojis' | 'stickers';
+
+export interface RestoreStepResult {
+    name: RestoreStepName;
+    /**
+     * `resumed` steps already finished in an earlier, interrupted run.
+     * `partial` steps finished, but some of what they restore could not be created.
+     */
+    status: 'success' | 'partial' | 'resumed' | 'failed' | 'skipped';
+    durationMs: number;
+    error?: string;
+    warnings: string[];
+}
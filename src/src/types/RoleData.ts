@@ -1,4 +1,8 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+
 export interface RoleData {
+    /** ID of the role in the source guild, missing in older backups */
+    id?: Snowflake;
     name: string;
     color: `#${string}`;
     hoist: boolean;
@@ -0,0 +1,5 @@
+export interface RollbackResult {
+    /** Whether everything the restore created was deleted and the snapshot was restored without any error */
+    success: boolean;
+    errors: string[];
+}
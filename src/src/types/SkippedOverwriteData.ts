@@ -0,0 +1,7 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+
+export interface SkippedOverwriteData {
+    channel: string;
+    userId: Snowflake;
+    username?: string;
+}
@@ -0,0 +1,8 @@
+import { BaseChannelData } from './';
+
+export interface StageChannelData extends BaseChannelData {
+    topic?: string;
+    bitrate: number;
+    userLimit: number;
+    rtcRegion: string | null;
+}
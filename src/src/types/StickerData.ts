@@ -0,0 +1,11 @@
+import { StickerFormatType } from 'discord.js-selfbot-v13';
+
+export interface StickerData {
+    name: string;
+    description: string | null;
+    /** The autocomplete tags, separated by commas */
+    tags: string;
+    format: StickerFormatType;
+    url?: string;
+    base64?: string;
+}
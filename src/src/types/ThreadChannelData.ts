@@ -5,7 +5,8 @@ export interface ThreadChannelData {
     type: ThreadChannelTypes;
     name: string;
     archived: boolean;
-    autoArchiveDuration: ThreadAutoArchiveDuration;
+    /** Missing when discord.js did not get the thread metadata, the thread then uses the default of its channel */
+    autoArchiveDuration?: ThreadAutoArchiveDuration;
     locked: boolean;
     rateLimitPerUser: number;
     messages: MessageData[];
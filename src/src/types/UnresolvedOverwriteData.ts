@@ -0,0 +1,7 @@
+import { Snowflake } from 'discord.js-selfbot-v13';
+
+export interface UnresolvedOverwriteData {
+    channel: string;
+    roleId?: Snowflake;
+    roleName: string;
+}
@@ -0,0 +1,5 @@
+export interface ValidationIssue {
+    /** JSON path of the invalid value, e.g. `$.roles[3].color` */
+    path: string;
+    message: string;
+}
@@ -1,4 +1,5 @@
 export interface WidgetData {
-    enabled: boolean;
+    /** Missing in older backups, written when discord.js did not know whether the widget is enabled */
+    enabled?: boolean;
     channel?: string;
 }
@@ -2,7 +2,9 @@ import type { GuildFeatures } from 'discord.js-selfbot-v13';
 
 export * from './AfkData';
 export * from './BackupData';
+export * from './BackupDiff';
 export * from './BackupInfos';
+export * from './BackupMetadata';
 export * from './BanData';
 export * from './BaseChannelData';
 export * from './CategoryData';
@@ -10,10 +12,26 @@ export * from './ChannelPermissionData';
 export * from './ChannelsData';
 export * from './CreateOptions';
 export * from './EmojiData';
+export * from './ForumChannelData';
+export * from './GuildDrift';
 export * from './LoadOptions';
 export * from './MessageData';
+export * from './PlannedAction';
+export * from './RestoreContext';
+export * from './RestoreCounts';
+export * from './RestoreJournal';
+export * from './RestoreProgressEvent';
+export * from './RestoreResult';
+export * from './RestoreScheduler';
+export * from './RestoreStepResult';
 export * from './RoleData';
+export * from './RollbackResult';
+export * from './SkippedOverwriteData';
+export * from './StageChannelData';
+export * from './StickerData';
 export * from './TextChannelData';
 export * from './ThreadChannelData';
+export * from './UnresolvedOverwriteData';
+export * from './ValidationIssue';
 export * from './VoiceChannelData';
 export * from './WidgetData';
@@ -2,8 +2,14 @@ import type {
     CategoryData,
     ChannelPermissionsData,
     CreateOptions,
-    LoadOptions,
+    ForumChannelData,
+    ForumEmojiData,
+    GuildChannelData,
     MessageData,
+    PlannedAction,
+    RestoreContext,
+    RestoreEntity,
+    StageChannelData,
     TextChannelData,
     ThreadChannelData,
     VoiceChannelData
@@ -12,7 +18,10 @@ import type {
 import type {
     CategoryChannel,
     Collection,
+    ForumChannel,
     Guild,
+    GuildMember,
+    GuildChannel,
     GuildChannelCreateOptions,
     Message,
     OverwriteData,
@@ -21,9 +30,11 @@ import type {
     VoiceChannel,
     NewsChannel,
     PremiumTier,
+    StageChannel,
     ThreadChannel
 } from 'discord.js-selfbot-v13';
 
+import { DiscordAPIError } from 'discord.js-selfbot-v13';
 import nodeFetch from 'node-fetch';
 import { configOptions2, t } from '../utils/func';
 import gradient from 'gradient-string';
@@ -33,6 +44,7 @@ import gradient from 'gradient-string';
 =========================== */
 
 const MIN_BITRATE = 8000;
+const MAX_STAGE_USER_LIMIT = 10000;
 
 const MaxBitratePerTier: Record<PremiumTier, number> = {
     NONE: 64000,
@@ -41,29 +53,122 @@ const MaxBitratePerTier: Record<PremiumTier, number> = {
     TIER_3: 384000
 };
 
+const MaxStickersPerTier: Record<PremiumTier, number> = {
+    NONE: 5,
+    TIER_1: 15,
+    TIER_2: 30,
+    TIER_3: 60
+};
+
+// Static and animated emojis each have this many slots
+const MaxEmojisPerTier: Record<PremiumTier, number> = {
+    NONE: 50,
+    TIER_1: 100,
+    TIER_2: 150,
+    TIER_3: 250
+};
+
+/**
+ * Returns how many static emojis, and as many animated ones, the boost tier of the guild allows
+ */
+export function getEmojiLimit(guild: Guild): number {
+    return MaxEmojisPerTier[guild.premiumTier] ?? MaxEmojisPerTier.NONE;
+}
+
+/**
+ * Returns how many stickers the boost tier of the guild allows
+ */
+export function getStickerLimit(guild: Guild): number {
+    return MaxStickersPerTier[guild.premiumTier] ?? MaxStickersPerTier.NONE;
+}
+
+/**
+ * Clamps a bitrate to what the boost tier of the guild allows
+ */
+export function getSafeBitrate(guild: Guild, bitrate: number): number {
+    const max = MaxBitratePerTier[guild.premiumTier] ?? 64000;
+    return Math.max(MIN_BITRATE, Math.min(Number(bitrate) || MIN_BITRATE, max));
+}
+
+/* ===========================
+   DRY RUN
+=========================== */
+
+let plannedIds = 0;
+
+/**
+ * Makes a write call through the scheduler, or only records it in the plan when the restore is a dry run.
+ * In a dry run the placeholder stands in for what the call would have returned.
+ */
+export async function perform<T>(
+    context: RestoreContext,
+    action: PlannedAction,
+    write: () => Promise<T>,
+    placeholder: object = {}
+): Promise<T> {
+    if (!context.options.dryRun) {
+        return context.scheduler.schedule(`${action.action} ${action.entity}`, write, action.action !== 'create');
+    }
+
+    context.plan.push(action);
+    return { id: `planned-${++plannedIds}`, ...placeholder } as unknown as T;
+}
+
+/* ===========================
+   PROGRESS
+=========================== */
+
+/**
+ * Counts one entity the restore created, or failed to create when an error is given,
+ * and reports it to the progress callback
+ */
+export function recordOutcome(context: RestoreContext, entity: RestoreEntity, name: string, err?: unknown) {
+    if (err === undefined) {
+        context.counts[entity].created++;
+        context.options.onProgress?.({ type: 'created', entity, name });
+        return;
+    }
+
+    const error = err instanceof Error ? err.message : String(err);
+    context.counts[entity].failed++;
+    context.errors.push(`${entity} ${name}: ${error}`);
+    context.options.onProgress?.({ type: 'failed', entity, name, error });
+}
+
 /* ===========================
    PERMISSIONS (SAFE)
 =========================== */
 
 export function fetchChannelPermissions(
-    channel: TextChannel | VoiceChannel | CategoryChannel | NewsChannel
+    channel: TextChannel | VoiceChannel | StageChannel | CategoryChannel | NewsChannel | ForumChannel
 ): ChannelPermissionsData[] {
 
     const permissions: ChannelPermissionsData[] = [];
 
     try {
-        channel.permissionOverwrites.cache
-            .filter(p => p.type === 'role')
-            .forEach(perm => {
-                const role = channel.guild.roles.cache.get(perm.id);
-                if (!role) return;
-
+        channel.permissionOverwrites.cache.forEach(perm => {
+            if (perm.type === 'member') {
                 permissions.push({
-                    roleName: role.name,
+                    type: 'member',
+                    userId: perm.id,
+                    username: channel.guild.members.cache.get(perm.id)?.user.tag,
                     allow: perm.allow.bitfield.toString(),
                     deny: perm.deny.bitfield.toString()
                 });
+                return;
+            }
+
+            const role = channel.guild.roles.cache.get(perm.id);
+            if (!role) return;
+
+            permissions.push({
+                type: 'role',
+                roleId: role.id,
+                roleName: role.name,
+                allow: perm.allow.bitfield.toString(),
+                deny: perm.deny.bitfield.toString()
             });
+        });
     } catch {}
 
     return permissions;
@@ -87,6 +192,98 @@ export async function fetchVoiceChannelData(
     };
 }
 
+/* ===========================
+   STAGE CHANNEL DATA
+=========================== */
+
+export function fetchStageChannelData(
+    channel: StageChannel
+): StageChannelData {
+
+    return {
+        type: 'GUILD_STAGE_VOICE',
+        name: channel.name,
+        topic: channel.topic ?? undefined,
+        bitrate: Math.max(Number(channel.bitrate) || MIN_BITRATE, MIN_BITRATE),
+        userLimit: channel.userLimit,
+        rtcRegion: channel.rtcRegion ?? null,
+        parent: channel.parent ? channel.parent.name : null,
+        permissions: fetchChannelPermissions(channel)
+    };
+}
+
+/* ===========================
+   FORUM CHANNEL DATA
+=========================== */
+
+export async function fetchForumChannelData(
+    channel: ForumChannel,
+    options: CreateOptions
+): Promise<ForumChannelData> {
+
+    // Custom emojis are saved by name, their ID only means something in this guild
+    const toEmojiData = (emoji: { id: Snowflake | null; name: string | null } | null): ForumEmojiData | null => {
+        if (emoji?.id) {
+            const name = channel.guild.emojis.cache.get(emoji.id)?.name ?? emoji.name;
+            return name ? { name, custom: true } : null;
+        }
+        return emoji?.name ? { name: emoji.name, custom: false } : null;
+    };
+
+    return {
+        type: 'GUILD_FORUM',
+        name: channel.name,
+        nsfw: Boolean(channel.nsfw),
+        topic: channel.topic ?? undefined,
+        parent: channel.parent ? channel.parent.name : null,
+        permissions: fetchChannelPermissions(channel),
+        availableTags: channel.availableTags.map((tag) => ({
+            name: tag.name,
+            moderated: tag.moderated,
+            emoji: toEmojiData(tag.emoji)
+        })),
+        defaultReactionEmoji: toEmojiData(channel.defaultReactionEmoji),
+        // The typings use numeric enums, the values are the names at runtime
+        defaultSortOrder: (channel.defaultSortOrder as unknown as ForumChannelData['defaultSortOrder']) ?? null,
+        defaultForumLayout: (channel.defaultForumLayout as unknown as ForumChannelData['defaultForumLayout']) ?? 'NOT_SET',
+        defaultThreadRateLimitPerUser: channel.defaultThreadRateLimitPerUser ?? null,
+        threads: await fetchThreadsData(channel, options)
+    };
+}
+
+/**
+ * Returns the type a channel of the backup is restored as, since some types need features the guild may not have
+ */
+export function getRestoredChannelType(
+    channelData: GuildChannelData,
+    guild: Guild
+): GuildChannelCreateOptions['type'] {
+    if (channelData.type === 'GUILD_VOICE') return 'GUILD_VOICE';
+    if (channelData.type === 'GUILD_STAGE_VOICE') {
+        return guild.features.includes('COMMUNITY') ? 'GUILD_STAGE_VOICE' : 'GUILD_VOICE';
+    }
+    // Forums need no feature, a guild that cannot have them rejects the create and loadChannel falls back
+    if (channelData.type === 'GUILD_FORUM') return 'GUILD_FORUM';
+    if (channelData.type === 'GUILD_NEWS' && (guild.features.includes('NEWS') || guild.features.includes('COMMUNITY'))) {
+        return 'GUILD_NEWS';
+    }
+    return 'GUILD_TEXT';
+}
+
+/**
+ * Resolves an emoji of a forum backup to an emoji the guild can use, null when the custom emoji is missing
+ */
+export function resolveForumEmoji(
+    emoji: ForumEmojiData | null,
+    guild: Guild
+): { id: Snowflake | null; name: string | null } | null {
+    if (!emoji) return null;
+    if (!emoji.custom) return { id: null, name: emoji.name };
+
+    const custom = guild.emojis.cache.find((e) => e.name === emoji.name);
+    return custom ? { id: custom.id, name: null } : null;
+}
+
 /* ===========================
    FETCH MESSAGES (SAFE)
 =========================== */
@@ -137,6 +334,32 @@ export async function fetchChannelMessages(
     return messages;
 }
 
+/* ===========================
+   THREADS DATA
+=========================== */
+
+export async function fetchThreadsData(
+    channel: TextChannel | NewsChannel | ForumChannel,
+    options: CreateOptions
+): Promise<ThreadChannelData[]> {
+
+    const threads: ThreadChannelData[] = [];
+
+    for (const thread of channel.threads.cache.values()) {
+        threads.push({
+            type: thread.type,
+            name: thread.name,
+            archived: Boolean(thread.archived),
+            autoArchiveDuration: thread.autoArchiveDuration ?? undefined,
+            locked: Boolean(thread.locked),
+            rateLimitPerUser: thread.rateLimitPerUser,
+            messages: await fetchChannelMessages(thread, options)
+        });
+    }
+
+    return threads;
+}
+
 /* ===========================
    TEXT CHANNEL DATA
 =========================== */
@@ -146,8 +369,8 @@ export async function fetchTextChannelData(
     options: CreateOptions
 ): Promise<TextChannelData> {
 
-    const data: TextChannelData = {
-        type: 'GUILD_TEXT', // 🔒 força compatibilidade
+    return {
+        type: channel.type,
         name: channel.name,
         nsfw: Boolean(channel.nsfw),
         rateLimitPerUser: channel.rateLimitPerUser ?? undefined,
@@ -155,23 +378,75 @@ export async function fetchTextChannelData(
         topic: channel.topic ?? undefined,
         permissions: fetchChannelPermissions(channel),
         messages: [],
-        isNews: false, // 🔒 nunca recriar como NEWS
-        threads: []
+        isNews: channel.type === 'GUILD_NEWS',
+        threads: await fetchThreadsData(channel, options)
     };
+}
 
-    for (const thread of channel.threads.cache.values()) {
-        data.threads.push({
-            type: thread.type,
-            name: thread.name,
-            archived: thread.archived,
-            autoArchiveDuration: thread.autoArchiveDuration,
-            locked: thread.locked,
-            rateLimitPerUser: thread.rateLimitPerUser,
-            messages: await fetchChannelMessages(thread, options)
+/* ===========================
+   RESOLVE OVERWRITES
+=========================== */
+
+export async function resolveOverwrites(
+    permissions: ChannelPermissionsData[],
+    guild: Guild,
+    channelName: string,
+    context: RestoreContext
+): Promise<OverwriteData[]> {
+
+    const overwrites: OverwriteData[] = [];
+
+    for (const p of permissions) {
+        if (p.type === 'member') {
+            const member = guild.members.cache.get(p.userId)
+                ?? await guild.members.fetch(p.userId).catch((): GuildMember => null);
+
+            if (!member) {
+                context.skippedMemberOverwrites.push({
+                    channel: channelName,
+                    userId: p.userId,
+                    username: p.username
+                });
+                context.warnings.push(
+                    `Overwrite of member ${p.username ?? p.userId} on ${channelName} skipped: not in the guild`
+                );
+                continue;
+            }
+
+            overwrites.push({
+                id: member.id,
+                type: 'member',
+                allow: BigInt(p.allow),
+                deny: BigInt(p.deny)
+            });
+            continue;
+        }
+
+        // Names are only trusted for backups that do not know the source role. A known role the
+        // restore did not map must not fall back to another role that shares its name.
+        const role = p.roleId
+            ? context.roleIds.get(p.roleId)
+            : guild.roles.cache.find(r => r.name === p.roleName && !context.cleared.has(r.id));
+
+        if (!role) {
+            context.unresolvedOverwrites.push({
+                channel: channelName,
+                roleId: p.roleId,
+                roleName: p.roleName
+            });
+            context.warnings.push(`Overwrite of role ${p.roleName} on ${channelName} could not be resolved`);
+            continue;
+        }
+
+        overwrites.push({
+            id: role.id,
+            type: 'role',
+            allow: BigInt(p.allow),
+            deny: BigInt(p.deny)
         });
     }
 
-    return data;
+    return overwrites;
 }
 
 /* ===========================
@@ -180,116 +455,284 @@ export async function fetchTextChannelData(
 
 export async function loadCategory(
     categoryData: CategoryData,
-    guild: Guild
+    guild: Guild,
+    context: RestoreContext
 ): Promise<CategoryChannel> {
 
-    const category = await guild.channels.create(categoryData.name, {
-        type: 'GUILD_CATEGORY'
-    });
+    let category: CategoryChannel;
+    try {
+        category = await perform(
+            context,
+            { action: 'create', entity: 'category', name: categoryData.name },
+            () => guild.channels.create(categoryData.name, {
+                type: 'GUILD_CATEGORY'
+            }),
+            { name: categoryData.name, type: 'GUILD_CATEGORY' }
+        );
+    } catch (err) {
+        recordOutcome(context, 'category', categoryData.name, err);
+        throw err;
+    }
+    recordOutcome(context, 'category', categoryData.name);
 
-    const overwrites: OverwriteData[] = [];
+    const overwrites = await resolveOverwrites(categoryData.permissions, guild, categoryData.name, context);
+
+    await perform(
+        context,
+        { action: 'edit', entity: 'overwrite', name: categoryData.name, details: `${overwrites.length} overwrites` },
+        () => category.permissionOverwrites.set(overwrites)
+    ).catch(() => {});
+    return category;
+}
 
-    categoryData.permissions.forEach(p => {
-        const role = guild.roles.cache.find(r => r.name === p.roleName);
-        if (!role) return;
+/* ===========================
+   LOAD THREADS
+=========================== */
 
-        overwrites.push({
-            id: role.id,
-            allow: BigInt(p.allow),
-            deny: BigInt(p.deny)
+/**
+ * Creates one thread under its restored parent. In a forum the thread is a post,
+ * started with the oldest message of the backup or its name.
+ */
+function createThread(channel: GuildChannel, threadData: ThreadChannelData): Promise<ThreadChannel> {
+    const options = {
+        name: threadData.name,
+        autoArchiveDuration: threadData.autoArchiveDuration ?? undefined,
+        rateLimitPerUser: threadData.rateLimitPerUser ?? undefined
+    };
+
+    if (channel.type === 'GUILD_FORUM') {
+        const starter = [...threadData.messages].reverse().find((message) => message.content)?.content;
+        return (channel as ForumChannel).threads.create({
+            ...options,
+            message: { content: starter ?? threadData.name }
         });
-    });
+    }
 
-    await category.permissionOverwrites.set(overwrites).catch(() => {});
-    return category;
+    // Threads of announcement channels are always news threads, private threads only exist in text channels
+    const type = threadData.type === 'GUILD_PRIVATE_THREAD' && channel.type === 'GUILD_TEXT'
+        ? 'GUILD_PRIVATE_THREAD'
+        : 'GUILD_PUBLIC_THREAD';
+    return (channel as TextChannel).threads.create({ ...options, type });
+}
+
+/**
+ * Restores the threads of a channel. They are archived and locked only once all of them exist,
+ * since a locked thread cannot be changed anymore.
+ */
+export async function loadThreads(
+    threads: ThreadChannelData[],
+    channel: GuildChannel,
+    context: RestoreContext
+): Promise<void> {
+
+    const created: Array<{ thread: ThreadChannel; threadData: ThreadChannelData }> = [];
+
+    for (const threadData of threads) {
+        try {
+            const thread = await perform(
+                context,
+                { action: 'create', entity: 'thread', name: threadData.name, details: `in ${channel.name}` },
+                () => createThread(channel, threadData),
+                { name: threadData.name }
+            );
+            recordOutcome(context, 'thread', threadData.name);
+            created.push({ thread, threadData });
+        } catch (err) {
+            recordOutcome(context, 'thread', threadData.name, err);
+        }
+    }
+
+    for (const { thread, threadData } of created) {
+        if (!threadData.archived && !threadData.locked) continue;
+
+        await perform(
+            context,
+            { action: 'edit', entity: 'thread', name: threadData.name, details: 'archived and locked state' },
+            () => thread.edit({ archived: threadData.archived, locked: threadData.locked })
+        ).catch((err) => {
+            context.warnings.push(`Could not archive or lock thread ${threadData.name}: ${err}`);
+        });
+    }
 }
 
 /* ===========================
    LOAD CHANNEL (ULTRA BLINDADO)
 =========================== */
 
-export async function loadChannel(
-    channelData: TextChannelData | VoiceChannelData,
+/**
+ * Returns the options a channel of the backup is created with, as the given type
+ */
+function getChannelCreateOptions(
+    channelData: GuildChannelData,
+    type: GuildChannelCreateOptions['type'],
     guild: Guild,
-    category?: CategoryChannel,
-    options?: LoadOptions
-): Promise<void> {
+    category: CategoryChannel | null
+): GuildChannelCreateOptions {
+    const createOptions: GuildChannelCreateOptions = {
+        parent: category ?? undefined
+    };
 
-    try {
+    /* 📝 TEXT AND ANNOUNCEMENT */
+    if (type === 'GUILD_TEXT' || type === 'GUILD_NEWS') {
+        const text = channelData as TextChannelData;
+
+        createOptions.type = type;
+        createOptions.topic = text.topic ?? undefined;
+        createOptions.nsfw = Boolean(text.nsfw);
+
+        // Announcement channels have no slowmode
         if (
-            channelData.name.startsWith('ticket-') &&
-            configOptions2.ignoreTickets
-        ) return;
+            type === 'GUILD_TEXT' &&
+            typeof text.rateLimitPerUser === 'number' &&
+            text.rateLimitPerUser >= 0
+        ) {
+            createOptions.rateLimitPerUser = text.rateLimitPerUser;
+        }
+    }
 
-        const createOptions: GuildChannelCreateOptions = {
-            parent: category ?? undefined
-        };
+    /* 💬 FORUM */
+    if (type === 'GUILD_FORUM') {
+        const forum = channelData as ForumChannelData;
+
+        createOptions.type = 'GUILD_FORUM';
+        createOptions.topic = forum.topic ?? undefined;
+        createOptions.nsfw = Boolean(forum.nsfw);
+        createOptions.availableTags = forum.availableTags.map((tag) => ({
+            name: tag.name,
+            moderated: tag.moderated,
+            emoji: resolveForumEmoji(tag.emoji, guild)
+        }));
+        createOptions.defaultReactionEmoji = resolveForumEmoji(forum.defaultReactionEmoji, guild) ?? undefined;
+        createOptions.defaultSortOrder =
+            (forum.defaultSortOrder as unknown as GuildChannelCreateOptions['defaultSortOrder']) ?? undefined;
+        createOptions.defaultForumLayout =
+            forum.defaultForumLayout as unknown as GuildChannelCreateOptions['defaultForumLayout'];
+
+        if (typeof forum.defaultThreadRateLimitPerUser === 'number') {
+            createOptions.defaultThreadRateLimitPerUser = forum.defaultThreadRateLimitPerUser;
+        }
+    }
 
-        /* 🔒 TEXT ONLY (NO NEWS, NO TYPE 5) */
-        if (channelData.type !== 'GUILD_VOICE') {
-            const text = channelData as TextChannelData;
+    /* 🔊 VOICE (BITRATE 100% SAFE) */
+    if (type === 'GUILD_VOICE') {
+        const voice = channelData as VoiceChannelData;
 
-            createOptions.type = 'GUILD_TEXT';
-            createOptions.topic = text.topic ?? undefined;
-            createOptions.nsfw = Boolean(text.nsfw);
+        createOptions.type = 'GUILD_VOICE';
+        createOptions.bitrate = getSafeBitrate(guild, voice.bitrate);
 
-            if (
-                typeof text.rateLimitPerUser === 'number' &&
-                text.rateLimitPerUser >= 0
-            ) {
-                createOptions.rateLimitPerUser = text.rateLimitPerUser;
-            }
+        if (
+            typeof voice.userLimit === 'number' &&
+            voice.userLimit >= 0 &&
+            voice.userLimit <= 99
+        ) {
+            createOptions.userLimit = voice.userLimit;
         }
+    }
+
+    /* 🎙️ STAGE */
+    if (type === 'GUILD_STAGE_VOICE') {
+        const stage = channelData as StageChannelData;
 
-        /* 🔊 VOICE (BITRATE 100% SAFE) */
-        if (channelData.type === 'GUILD_VOICE') {
-            const voice = channelData as VoiceChannelData;
+        createOptions.type = 'GUILD_STAGE_VOICE';
+        createOptions.topic = stage.topic ?? undefined;
+        createOptions.bitrate = getSafeBitrate(guild, stage.bitrate);
+        createOptions.rtcRegion = stage.rtcRegion ?? undefined;
 
-            const max = MaxBitratePerTier[guild.premiumTier] ?? 64000;
+        if (
+            typeof stage.userLimit === 'number' &&
+            stage.userLimit >= 0 &&
+            stage.userLimit <= MAX_STAGE_USER_LIMIT
+        ) {
+            createOptions.userLimit = stage.userLimit;
+        }
+    }
 
-            let bitrate = Number(voice.bitrate) || MIN_BITRATE;
-            bitrate = Math.max(MIN_BITRATE, Math.min(bitrate, max));
+    return createOptions;
+}
 
-            createOptions.type = 'GUILD_VOICE';
-            createOptions.bitrate = bitrate;
+/**
+ * Creates a channel with its overwrites and threads. The channel is recorded under its key as soon
+ * as it exists, so a restore stopped while creating its threads does not create it again on resume.
+ */
+export async function loadChannel(
+    channelData: GuildChannelData,
+    guild: Guild,
+    category: CategoryChannel | null,
+    context: RestoreContext,
+    key: string
+): Promise<GuildChannel | null> {
 
-            if (
-                typeof voice.userLimit === 'number' &&
-                voice.userLimit >= 0 &&
-                voice.userLimit <= 99
-            ) {
-                createOptions.userLimit = voice.userLimit;
-            }
+    try {
+        if (
+            channelData.name.startsWith('ticket-') &&
+            configOptions2.ignoreTickets
+        ) return null;
+
+        const type = getRestoredChannelType(channelData, guild);
+        if (channelData.type === 'GUILD_NEWS' && type !== 'GUILD_NEWS') {
+            context.warnings.push(
+                `Announcement channel ${channelData.name} was restored as a text channel, the guild has no news feature`
+            );
+        }
+        if (channelData.type === 'GUILD_STAGE_VOICE' && type !== 'GUILD_STAGE_VOICE') {
+            context.warnings.push(
+                `Stage channel ${channelData.name} was restored as a voice channel, the guild is not a community`
+            );
         }
 
-        const channel = await guild.channels.create(
-            channelData.name,
-            createOptions
-        );
+        const createChannel = (restoredType: GuildChannelCreateOptions['type']) => {
+            const createOptions = getChannelCreateOptions(channelData, restoredType, guild, category);
+            return perform(
+                context,
+                { action: 'create', entity: 'channel', name: channelData.name, details: String(createOptions.type) },
+                () => guild.channels.create(
+                    channelData.name,
+                    createOptions
+                ),
+                { name: channelData.name, type: createOptions.type }
+            ) as Promise<GuildChannel>;
+        };
 
-        const overwrites: OverwriteData[] = [];
+        let channel: GuildChannel;
+        try {
+            channel = await createChannel(type);
+        } catch (err) {
+            if (type !== 'GUILD_FORUM' || !(err instanceof DiscordAPIError)) throw err;
+            context.warnings.push(
+                `Forum channel ${channelData.name} was restored as a text channel, the guild rejected it: ${err.message}`
+            );
+            channel = await createChannel('GUILD_TEXT');
+        }
+        context.channels.set(key, channel);
+        context.checkpoint();
 
-        channelData.permissions.forEach(p => {
-            const role = guild.roles.cache.find(r => r.name === p.roleName);
-            if (!role) return;
+        const overwrites = await resolveOverwrites(channelData.permissions, guild, channelData.name, context);
 
-            overwrites.push({
-                id: role.id,
-                allow: BigInt(p.allow),
-                deny: BigInt(p.deny)
-            });
-        });
+        await perform(
+            context,
+            { action: 'edit', entity: 'overwrite', name: channelData.name, details: `${overwrites.length} overwrites` },
+            () => channel.permissionOverwrites.set(overwrites)
+        ).catch(() => {});
 
-        await channel.permissionOverwrites.set(overwrites).catch(() => {});
+        if ('threads' in channelData && channelData.threads?.length) {
+            await loadThreads(channelData.threads, channel, context);
+        }
 
-        console.log(
-            gradient(['#43a1ff', '#8a3ffc'])(
-                t('channelcreate') + channelData.name
-            )
-        );
+        recordOutcome(context, 'channel', channelData.name);
+        if (!context.options.dryRun) {
+            console.log(
+                gradient(['#43a1ff', '#8a3ffc'])(
+                    t('channelcreate') + channelData.name
+                )
+            );
+        }
+
+        return channel;
 
     } catch (err) {
+        recordOutcome(context, 'channel', channelData.name, err);
         console.error(`⚠️ Canal ignorado (segurança): ${channelData.name}`);
+        return null;
     }
 }
 
@@ -297,39 +740,42 @@ export async function loadChannel(
    CLEAR GUILD (SAFE)
 =========================== */
 
-export async function clearGuild(guild: Guild) {
+export async function clearGuild(guild: Guild, context: RestoreContext) {
 
-    for (const role of guild.roles.cache.values()) {
-        if (!role.managed && role.editable && role.id !== guild.id) {
-            await role.delete().catch(() => {});
-        }
-    }
+    const clear = (entity: PlannedAction['entity'], entry: { id: Snowflake; name: string; delete(): Promise<unknown> }) =>
+        perform(context, { action: 'delete', entity, name: entry.name }, () => entry.delete())
+            .then(() => { context.cleared.add(entry.id); }, () => {});
 
-    for (const channel of guild.channels.cache.values()) {
-        await channel.delete().catch(() => {});
-    }
+    // The scheduler keeps the deletions within the rate limits, so they are all queued at once
+    await Promise.all(guild.roles.cache
+        .filter((role) => !role.managed && role.editable && role.id !== guild.id)
+        .map((role) => clear('role', role)));
 
-    for (const emoji of guild.emojis.cache.values()) {
-        await emoji.delete().catch(() => {});
-    }
+    await Promise.all(guild.channels.cache.map((channel) => clear('channel', channel)));
+    await Promise.all(guild.emojis.cache.map((emoji) => clear('emoji', emoji)));
+    await Promise.all(guild.stickers.cache.map((sticker) => clear('sticker', sticker)));
 
     try {
         const webhooks = await guild.fetchWebhooks();
         for (const webhook of webhooks.values()) {
-            await webhook.delete().catch(() => {});
+            await perform(context, { action: 'delete', entity: 'webhook', name: webhook.name },
+                () => webhook.delete()).catch(() => {});
         }
     } catch {}
 
-    await guild.setAFKChannel(null).catch(() => {});
-    await guild.setAFKTimeout(300).catch(() => {});
-    await guild.setIcon(null).catch(() => {});
-    await guild.setBanner(null).catch(() => {});
-    await guild.setSplash(null).catch(() => {});
-    await guild.setDefaultMessageNotifications('ONLY_MENTIONS').catch(() => {});
-    await guild.setWidgetSettings({ enabled: false, channel: null }).catch(() => {});
-    await guild.setSystemChannel(null).catch(() => {});
-    await guild.setVerificationLevel('NONE').catch(() => {});
-    await guild.setExplicitContentFilter('DISABLED').catch(() => {});
+    const resetGuild = (name: string, write: () => Promise<unknown>) =>
+        perform(context, { action: 'edit', entity: 'guild', name, details: 'reset' }, write).catch(() => {});
+
+    await resetGuild('afkChannel', () => guild.setAFKChannel(null));
+    await resetGuild('afkTimeout', () => guild.setAFKTimeout(300));
+    await resetGuild('icon', () => guild.setIcon(null));
+    await resetGuild('banner', () => guild.setBanner(null));
+    await resetGuild('splash', () => guild.setSplash(null));
+    await resetGuild('defaultMessageNotifications', () => guild.setDefaultMessageNotifications('ONLY_MENTIONS'));
+    await resetGuild('widget', () => guild.setWidgetSettings({ enabled: false, channel: null }));
+    await resetGuild('systemChannel', () => guild.setSystemChannel(null));
+    await resetGuild('verificationLevel', () => guild.setVerificationLevel('NONE'));
+    await resetGuild('explicitContentFilter', () => guild.setExplicitContentFilter('DISABLED'));
 }
 
 /* ===========================
@@ -337,11 +783,22 @@ export async function clearGuild(guild: Guild) {
 =========================== */
 
 export default {
+    getSafeBitrate,
+    getEmojiLimit,
+    getStickerLimit,
+    perform,
+    recordOutcome,
     fetchChannelPermissions,
     fetchVoiceChannelData,
+    fetchStageChannelData,
+    fetchForumChannelData,
+    getRestoredChannelType,
     fetchChannelMessages,
+    fetchThreadsData,
     fetchTextChannelData,
+    resolveOverwrites,
     loadCategory,
+    loadThreads,
     loadChannel,
     clearGuild
 };
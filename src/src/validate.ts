@@ -0,0 +1,343 @@
+import type { ValidationIssue } from './types';
+
+/* ===========================
+   LIMITS (DISCORD API)
+=========================== */
+
+const MIN_BITRATE = 8000;
+const MAX_BITRATE = 384000;
+const MAX_USER_LIMIT = 99;
+const MAX_STAGE_USER_LIMIT = 10000;
+const MAX_STAGE_TOPIC_LENGTH = 120;
+const MAX_RATE_LIMIT_PER_USER = 21600;
+const MAX_TOPIC_LENGTH = 1024;
+const MAX_FORUM_TOPIC_LENGTH = 4096;
+const MAX_FORUM_TAGS = 20;
+const MAX_PERMISSION_BITFIELD = (1n << 64n) - 1n;
+
+const MAX_STICKER_DESCRIPTION_LENGTH = 100;
+const MAX_STICKER_TAGS_LENGTH = 200;
+const STICKER_FORMATS = ['PNG', 'APNG', 'LOTTIE', 'GIF'];
+
+const AFK_TIMEOUTS = [60, 300, 900, 1800, 3600];
+const AUTO_ARCHIVE_DURATIONS = [60, 1440, 4320, 10080, 'MAX'];
+
+const TEXT_CHANNEL_TYPES = ['GUILD_TEXT', 'GUILD_NEWS'];
+const VOICE_CHANNEL_TYPES = ['GUILD_VOICE'];
+const STAGE_CHANNEL_TYPES = ['GUILD_STAGE_VOICE'];
+const FORUM_CHANNEL_TYPES = ['GUILD_FORUM'];
+const FORUM_SORT_ORDERS = ['LATEST_ACTIVITY', 'CREATION_DATE'];
+const FORUM_LAYOUTS = ['NOT_SET', 'LIST_VIEW', 'GALLERY_VIEW'];
+const THREAD_CHANNEL_TYPES = ['GUILD_PUBLIC_THREAD', 'GUILD_PRIVATE_THREAD', 'GUILD_NEWS_THREAD'];
+
+/* ===========================
+   HELPERS
+=========================== */
+
+type Check = (value: any, path: string) => void;
+
+const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isInteger = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/**
+ * Creates the set of checks sharing one issue list, so every problem is reported and not only the first
+ */
+function createChecks(issues: ValidationIssue[]) {
+    const report = (path: string, message: string) => issues.push({ path, message });
+
+    const requireObject = (value: any, path: string) => {
+        if (!isObject(value)) {
+            report(path, 'must be an object');
+            return false;
+        }
+        return true;
+    };
+
+    const requireString = (value: any, path: string, optional = false) => {
+        if (optional && (value === undefined || value === null)) return;
+        if (typeof value !== 'string') report(path, 'must be a string');
+    };
+
+    const requireName = (value: any, path: string) => {
+        if (typeof value !== 'string' || !value.trim().length) report(path, 'must be a non-empty string');
+    };
+
+    const requireBoolean = (value: any, path: string, optional = false) => {
+        if (optional && (value === undefined || value === null)) return;
+        if (typeof value !== 'boolean') report(path, 'must be a boolean');
+    };
+
+    const requireRange = (value: any, path: string, min: number, max: number, optional = false) => {
+        if (optional && (value === undefined || value === null)) return;
+        if (!isInteger(value, min, max)) report(path, `must be an integer between ${min} and ${max}`);
+    };
+
+    const requireBitfield = (value: any, path: string) => {
+        if (typeof value !== 'string' || !/^\d+$/.test(value) || BigInt(value) > MAX_PERMISSION_BITFIELD) {
+            report(path, 'must be a permission bitfield as a BigInt string');
+        }
+    };
+
+    const requireArray = (value: any, path: string, check: Check) => {
+        if (!Array.isArray(value)) {
+            report(path, 'must be an array');
+            return;
+        }
+        value.forEach((item, index) => check(item, `${path}[${index}]`));
+    };
+
+    return {
+        report,
+        requireObject,
+        requireString,
+        requireName,
+        requireBoolean,
+        requireRange,
+        requireBitfield,
+        requireArray
+    };
+}
+
+/* ===========================
+   VALIDATOR
+=========================== */
+
+/**
+ * Validates the whole backup tree before anything is restored
+ * @param {any} backup The backup data, already migrated to the current schema
+ * @returns {ValidationIssue[]} Every problem found, empty when the backup is valid
+ */
+export function validateBackup(backup: any): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const c = createChecks(issues);
+
+    if (!c.requireObject(backup, '$')) return issues;
+
+    const validatePermission: Check = (permission, path) => {
+        if (!c.requireObject(permission, path)) return;
+        if (permission.type === 'role') {
+            c.requireString(permission.roleId, `${path}.roleId`, true);
+            c.requireString(permission.roleName, `${path}.roleName`);
+        } else if (permission.type === 'member') {
+            if (typeof permission.userId !== 'string' || !/^\d{17,20}$/.test(permission.userId)) {
+                c.report(`${path}.userId`, 'must be a user ID');
+            }
+            c.requireString(permission.username, `${path}.username`, true);
+        } else {
+            c.report(`${path}.type`, 'must be role or member');
+        }
+        c.requireBitfield(permission.allow, `${path}.allow`);
+        c.requireBitfield(permission.deny, `${path}.deny`);
+    };
+
+    const validateMessages = (messages: any, path: string) => {
+        c.requireArray(messages, path, (message, messagePath) => {
+            if (!c.requireObject(message, messagePath)) return;
+            c.requireString(message.username, `${messagePath}.username`);
+            c.requireString(message.content, `${messagePath}.content`, true);
+        });
+    };
+
+    const validateThread: Check = (thread, path) => {
+        if (!c.requireObject(thread, path)) return;
+        c.requireName(thread.name, `${path}.name`);
+        if (!THREAD_CHANNEL_TYPES.includes(thread.type)) {
+            c.report(`${path}.type`, `must be one of ${THREAD_CHANNEL_TYPES.join(', ')}`);
+        }
+        // discord.js leaves these unset when the thread metadata was not sent
+        c.requireBoolean(thread.archived, `${path}.archived`, true);
+        c.requireBoolean(thread.locked, `${path}.locked`, true);
+        if (
+            thread.autoArchiveDuration !== null &&
+            thread.autoArchiveDuration !== undefined &&
+            !AUTO_ARCHIVE_DURATIONS.includes(thread.autoArchiveDuration)
+        ) {
+            c.report(`${path}.autoArchiveDuration`, `must be one of ${AUTO_ARCHIVE_DURATIONS.join(', ')}`);
+        }
+        c.requireRange(thread.rateLimitPerUser, `${path}.rateLimitPerUser`, 0, MAX_RATE_LIMIT_PER_USER, true);
+        validateMessages(thread.messages, `${path}.messages`);
+    };
+
+    const validateForumEmoji: Check = (emoji, path) => {
+        if (emoji === null || emoji === undefined) return;
+        if (!c.requireObject(emoji, path)) return;
+        c.requireName(emoji.name, `${path}.name`);
+        c.requireBoolean(emoji.custom, `${path}.custom`);
+    };
+
+    const validateForumTag: Check = (tag, path) => {
+        if (!c.requireObject(tag, path)) return;
+        c.requireName(tag.name, `${path}.name`);
+        c.requireBoolean(tag.moderated, `${path}.moderated`);
+        validateForumEmoji(tag.emoji, `${path}.emoji`);
+    };
+
+    const validateChannel: Check = (channel, path) => {
+        if (!c.requireObject(channel, path)) return;
+        c.requireName(channel.name, `${path}.name`);
+        c.requireArray(channel.permissions, `${path}.permissions`, validatePermission);
+
+        if (TEXT_CHANNEL_TYPES.includes(channel.type)) {
+            c.requireBoolean(channel.nsfw, `${path}.nsfw`);
+            c.requireBoolean(channel.isNews, `${path}.isNews`);
+            c.requireString(channel.topic, `${path}.topic`, true);
+            if (typeof channel.topic === 'string' && channel.topic.length > MAX_TOPIC_LENGTH) {
+                c.report(`${path}.topic`, `must be at most ${MAX_TOPIC_LENGTH} characters`);
+            }
+            c.requireRange(channel.rateLimitPerUser, `${path}.rateLimitPerUser`, 0, MAX_RATE_LIMIT_PER_USER, true);
+            validateMessages(channel.messages, `${path}.messages`);
+            c.requireArray(channel.threads, `${path}.threads`, validateThread);
+        } else if (FORUM_CHANNEL_TYPES.includes(channel.type)) {
+            c.requireBoolean(channel.nsfw, `${path}.nsfw`);
+            c.requireString(channel.topic, `${path}.topic`, true);
+            if (typeof channel.topic === 'string' && channel.topic.length > MAX_FORUM_TOPIC_LENGTH) {
+                c.report(`${path}.topic`, `must be at most ${MAX_FORUM_TOPIC_LENGTH} characters`);
+            }
+            c.requireArray(channel.availableTags, `${path}.availableTags`, validateForumTag);
+            if (Array.isArray(channel.availableTags) && channel.availableTags.length > MAX_FORUM_TAGS) {
+                c.report(`${path}.availableTags`, `must have at most ${MAX_FORUM_TAGS} tags`);
+            }
+            validateForumEmoji(channel.defaultReactionEmoji, `${path}.defaultReactionEmoji`);
+            if (channel.defaultSortOrder !== null && !FORUM_SORT_ORDERS.includes(channel.defaultSortOrder)) {
+                c.report(`${path}.defaultSortOrder`, `must be null or one of ${FORUM_SORT_ORDERS.join(', ')}`);
+            }
+            if (!FORUM_LAYOUTS.includes(channel.defaultForumLayout)) {
+                c.report(`${path}.defaultForumLayout`, `must be one of ${FORUM_LAYOUTS.join(', ')}`);
+            }
+            c.requireRange(
+                channel.defaultThreadRateLimitPerUser,
+                `${path}.defaultThreadRateLimitPerUser`,
+                0,
+                MAX_RATE_LIMIT_PER_USER,
+                true
+            );
+            c.requireArray(channel.threads, `${path}.threads`, validateThread);
+        } else if (VOICE_CHANNEL_TYPES.includes(channel.type)) {
+            c.requireRange(channel.bitrate, `${path}.bitrate`, MIN_BITRATE, MAX_BITRATE);
+            c.requireRange(channel.userLimit, `${path}.userLimit`, 0, MAX_USER_LIMIT);
+        } else if (STAGE_CHANNEL_TYPES.includes(channel.type)) {
+            c.requireString(channel.topic, `${path}.topic`, true);
+            if (typeof channel.topic === 'string' && channel.topic.length > MAX_STAGE_TOPIC_LENGTH) {
+                c.report(`${path}.topic`, `must be at most ${MAX_STAGE_TOPIC_LENGTH} characters`);
+            }
+            c.requireRange(channel.bitrate, `${path}.bitrate`, MIN_BITRATE, MAX_BITRATE);
+            c.requireRange(channel.userLimit, `${path}.userLimit`, 0, MAX_STAGE_USER_LIMIT);
+            c.requireString(channel.rtcRegion, `${path}.rtcRegion`, true);
+        } else {
+            c.report(`${path}.type`, `unsupported channel type ${JSON.stringify(channel.type)}`);
+        }
+    };
+
+    const validateCategory: Check = (category, path) => {
+        if (!c.requireObject(category, path)) return;
+        c.requireName(category.name, `${path}.name`);
+        c.requireArray(category.permissions, `${path}.permissions`, validatePermission);
+        c.requireArray(category.children, `${path}.children`, validateChannel);
+    };
+
+    const validateRole: Check = (role, path) => {
+        if (!c.requireObject(role, path)) return;
+        c.requireString(role.id, `${path}.id`, true);
+        c.requireName(role.name, `${path}.name`);
+        if (typeof role.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(role.color)) {
+            c.report(`${path}.color`, 'must be a hex color like #a1b2c3');
+        }
+        c.requireBoolean(role.hoist, `${path}.hoist`);
+        c.requireBitfield(role.permissions, `${path}.permissions`);
+        c.requireBoolean(role.mentionable, `${path}.mentionable`);
+        c.requireRange(role.position, `${path}.position`, 0, Number.MAX_SAFE_INTEGER);
+        c.requireBoolean(role.isEveryone, `${path}.isEveryone`);
+    };
+
+    const validateEmojiRole: Check = (role, path) => {
+        if (!c.requireObject(role, path)) return;
+        c.requireString(role.roleId, `${path}.roleId`);
+        c.requireString(role.roleName, `${path}.roleName`);
+    };
+
+    const validateEmoji: Check = (emoji, path) => {
+        if (!c.requireObject(emoji, path)) return;
+        if (typeof emoji.name !== 'string' || !/^\w{2,32}$/.test(emoji.name)) {
+            c.report(`${path}.name`, 'must be 2 to 32 letters, numbers or underscores');
+        }
+        if (!emoji.url && !emoji.base64) c.report(path, 'must have an url or base64 image');
+        c.requireString(emoji.url, `${path}.url`, true);
+        c.requireString(emoji.base64, `${path}.base64`, true);
+        c.requireBoolean(emoji.animated, `${path}.animated`);
+        c.requireArray(emoji.roles, `${path}.roles`, validateEmojiRole);
+    };
+
+    const validateSticker: Check = (sticker, path) => {
+        if (!c.requireObject(sticker, path)) return;
+        if (typeof sticker.name !== 'string' || sticker.name.length < 2 || sticker.name.length > 30) {
+            c.report(`${path}.name`, 'must be 2 to 30 characters');
+        }
+        c.requireString(sticker.description, `${path}.description`, true);
+        if (typeof sticker.description === 'string' && sticker.description.length > MAX_STICKER_DESCRIPTION_LENGTH) {
+            c.report(`${path}.description`, `must be at most ${MAX_STICKER_DESCRIPTION_LENGTH} characters`);
+        }
+        c.requireString(sticker.tags, `${path}.tags`);
+        if (typeof sticker.tags === 'string' && sticker.tags.length > MAX_STICKER_TAGS_LENGTH) {
+            c.report(`${path}.tags`, `must be at most ${MAX_STICKER_TAGS_LENGTH} characters`);
+        }
+        if (!STICKER_FORMATS.includes(sticker.format)) {
+            c.report(`${path}.format`, `must be one of ${STICKER_FORMATS.join(', ')}`);
+        }
+        if (!sticker.url && !sticker.base64) c.report(path, 'must have an url or base64 image');
+        c.requireString(sticker.url, `${path}.url`, true);
+        c.requireString(sticker.base64, `${path}.base64`, true);
+    };
+
+    const validateBan: Check = (ban, path) => {
+        if (!c.requireObject(ban, path)) return;
+        if (typeof ban.id !== 'string' || !/^\d{17,20}$/.test(ban.id)) c.report(`${path}.id`, 'must be a user ID');
+        c.requireString(ban.reason, `${path}.reason`, true);
+    };
+
+    c.requireName(backup.name, '$.name');
+    c.requireString(backup.id, '$.id');
+    c.requireString(backup.iconURL, '$.iconURL', true);
+    c.requireString(backup.iconBase64, '$.iconBase64', true);
+    for (const image of ['banner', 'splash', 'discoverySplash']) {
+        c.requireString(backup[`${image}URL`], `$.${image}URL`, true);
+        c.requireString(backup[`${image}Base64`], `$.${image}Base64`, true);
+    }
+
+    if (backup.afk !== undefined && backup.afk !== null && c.requireObject(backup.afk, '$.afk')) {
+        c.requireName(backup.afk.name, '$.afk.name');
+        if (!AFK_TIMEOUTS.includes(backup.afk.timeout)) {
+            c.report('$.afk.timeout', `must be one of ${AFK_TIMEOUTS.join(', ')}`);
+        }
+    }
+
+    c.requireString(backup.description, '$.description', true);
+    c.requireString(backup.preferredLocale, '$.preferredLocale', true);
+    if (backup.premiumProgressBarEnabled !== undefined) {
+        c.requireBoolean(backup.premiumProgressBarEnabled, '$.premiumProgressBarEnabled');
+    }
+    for (const key of ['systemChannel', 'rulesChannel', 'publicUpdatesChannel', 'safetyAlertsChannel']) {
+        c.requireString(backup[key], `$.${key}`, true);
+    }
+    if (backup.systemChannelFlags !== undefined) {
+        c.requireArray(backup.systemChannelFlags, '$.systemChannelFlags', (flag, path) => c.requireString(flag, path));
+    }
+
+    if (c.requireObject(backup.widget, '$.widget')) {
+        // Only set when the guild payload had widget_enabled, which gateway guilds usually lack
+        c.requireBoolean(backup.widget.enabled, '$.widget.enabled', true);
+        c.requireString(backup.widget.channel, '$.widget.channel', true);
+    }
+
+    if (c.requireObject(backup.channels, '$.channels')) {
+        c.requireArray(backup.channels.categories, '$.channels.categories', validateCategory);
+        c.requireArray(backup.channels.others, '$.channels.others', validateChannel);
+    }
+
+    c.requireArray(backup.roles, '$.roles', validateRole);
+    c.requireArray(backup.emojis, '$.emojis', validateEmoji);
+    c.requireArray(backup.stickers, '$.stickers', validateSticker);
+    c.requireArray(backup.bans, '$.bans', validateBan);
+
+    return issues;
+}
@@ -1,5 +1,5 @@
 import gradient from "gradient-string";
-import backup from "../src/index";
+import backup, { formatBackupDiff } from "../src/index";
 import boxen from "boxen";
 import { rl, translations } from "../index";
 import chalk from "chalk"; 
@@ -27,6 +27,10 @@ export function choiceinit(client: Client) {
           const option = choice === "1" ? "Clonerop2choice" : choice === "2" ? "Clonerop1choice" : "Clonerop3choice";
           configop(client, option);
           break;
+        case "4":
+          creatorname();
+          diffbackups(client);
+          break;
         case "6":
           creatorname();
           serverinfo(client);
@@ -118,6 +122,8 @@ export async function Cloner(
     maxMessagesPerChannel: number;
     jsonSave: boolean;
     jsonBeautify: boolean;
+    encrypt: boolean;
+    rollback: boolean;
     doNotBackup: string[];
   },
   cloneOption: number,
@@ -127,7 +133,6 @@ export async function Cloner(
   let GUILD_ID: string = '';
   const starttime = process.hrtime();
   let errors = 0;
-  let clonedall = 0;
   let clearall = () => {
     creatorname();
     menutext(client);
@@ -179,6 +184,7 @@ export async function Cloner(
         maxMessagesPerChannel: configOptions.maxMessagesPerChannel,
         jsonSave: configOptions.jsonSave,
         jsonBeautify: configOptions.jsonBeautify,
+        encrypt: configOptions.encrypt,
         doNotBackup: configOptions.doNotBackup,
       });
 
@@ -201,58 +207,57 @@ export async function Cloner(
         return;
       }
 
-      const startime2 = process.hrtime();
-      console.log(gradient(["darkblue", "blue"])(t('initcloner')));
-      let channelCount = 0;
+      const endtime = process.hrtime(starttime);
+      const exetimes = endtime[0] + endtime[1] / 1e9;
+      const Tempo = Tempoex(exetimes);
 
-      cloner.channels.categories.forEach((category: { children: any[] }) => {
-        category.children.forEach(() => {
-          channelCount += 1;
-        });
-      });
+      console.log(gradient(["darkblue", "blue"])(t('initcloner')));
 
-      cloner.channels.others.forEach(() => {
-        channelCount += 1;
+      // The backup object is passed as is, it is only on disk when jsonSave is enabled
+      const result = await backup.load(cloner, newGuild, {
+        clearGuildBeforeRestore: true,
+        maxMessagesPerChannel: configOptions.maxMessagesPerChannel,
+        // A new server has nothing to lose, an existing one is only put back when the user asked for it
+        rollbackOnFailure: configOptions.rollback && !createNewServer,
+        onProgress: (event) => {
+          if (event.type === 'stepStart') {
+            console.log(gradient(["darkblue", "blue"])(t('restorestep') + event.step));
+          }
+        },
       });
 
-      backup.load(cloner.id, newGuild);
-      const tempss = channelCount * 1;
-      const temp = tempss * 1000;
-
-      setTimeout(async () => {
-        const endtime2 = process.hrtime(startime2);
-        const exetimess = endtime2[0] + endtime2[1] / 1e9;
-        const Tempo2 = Tempoex(exetimess);
-
-        console.log(gradient(["#FFEB3B", "#FFC107", "#FF9800", "#FF5722"])(t('msgfinalcloner') + Tempo2));
-        console.log(gradient(["#FFEB3B", "#FFC107", "#FF9800", "#FF5722"])(t('configtime') + Tempo));
-        console.log(gradient(["#FFEB3B", "#FFC107", "#FF9800", "#FF5722"])(t('channelnumber') + clonedall));
-        console.log(gradient(["#FFEB3B", "#FFC107", "#FF9800", "#FF5722"])(t('errorcloning') + errors));
-
-        if (cloneOption === 3) {
-          const template = await newGuild.createTemplate(
-            `${guild.name}`,
-            `By Infinite community (https://discord.gg/infinite-community-1014921352500756500)`
-          );
-          console.log(gradient(["#FFEB3B", "#FFC107", "#FF9800", "#FF5722"])(`» Template Url: ${template.url}`));
-        }
-
-        awaitenter(client);
-      }, temp);
-
-      cloner.channels.categories.forEach((category: { children: any[] }) => {
-        category.children.forEach(() => {
-          clonedall++;
-        });
-      });
+      const Tempo2 = Tempoex(result.durationMs / 1000);
+      const finalGradient = gradient(["#FFEB3B", "#FFC107", "#FF9800", "#FF5722"]);
+
+      console.log(finalGradient(t('msgfinalcloner') + Tempo2));
+      console.log(finalGradient(t('configtime') + Tempo));
+      console.log(finalGradient(t('rolenumber') + result.counts.role.created));
+      console.log(finalGradient(t('categorynumber') + result.counts.category.created));
+      console.log(finalGradient(t('channelnumber') + result.counts.channel.created));
+      console.log(finalGradient(t('threadnumber') + result.counts.thread.created));
+      console.log(finalGradient(t('emojinumber') + result.counts.emoji.created));
+      console.log(finalGradient(t('stickernumber') + result.counts.sticker.created));
+      if (result.skippedEmojis.length) {
+        console.log(gradient(["red", "darkred"])(t('emojiskipped') + result.skippedEmojis.join(', ')));
+      }
+      if (result.skippedStickers.length) {
+        console.log(gradient(["red", "darkred"])(t('stickerskipped') + result.skippedStickers.join(', ')));
+      }
+      console.log(finalGradient(t('errorcloning') + (errors + result.errors.length)));
+      result.errors.forEach((error) => console.log(gradient(["red", "darkred"])(`  - ${error}`)));
+      if (result.rollback) {
+        console.log(finalGradient(t(result.rollback.success ? 'rollbackdone' : 'rollbackfailed')));
+      }
 
-      cloner.channels.others.forEach(() => {
-        clonedall++;
-      });
+      if (cloneOption === 3) {
+        const template = await newGuild.createTemplate(
+          `${guild.name}`,
+          `By Infinite community (https://discord.gg/infinite-community-1014921352500756500)`
+        );
+        console.log(finalGradient(`» Template Url: ${template.url}`));
+      }
 
-      const endtime = process.hrtime(starttime);
-      const exetimes = endtime[0] + endtime[1] / 1e9;
-      const Tempo = Tempoex(exetimes);
+      awaitenter(client);
     } catch (error) {
       console.error('Ocorreu um erro específico durante a clonagem: ', error);
       errors++;
@@ -274,6 +279,28 @@ export async function Cloner(
     }
   });
 }
+export async function diffbackups(client: Client) {
+  try {
+    // The IDs are only shown here, the cloner does not print the ID of the backups it saves
+    const backups = await backup.list();
+    if (!backups.length) console.log(gradient(["red", "darkred"])(t("nobackups")));
+    for (const saved of backups) {
+      const date = new Date(saved.createdTimestamp).toLocaleString(langat === "pt" ? "pt-BR" : "en-US");
+      const name = saved.locked ? t("lockedbackup") : saved.name;
+      console.log(gradient(["purple", "pink"])(`» ${saved.id} | ${name} | ${date}`));
+    }
+
+    const before = await espop(gradient(["purple", "pink"])(t("diffbefore")));
+    const after = await espop(gradient(["purple", "pink"])(t("diffafter")));
+    const result = await backup.diff(before, after);
+    console.log(gradient(["#ff4500", "#ffa500", "#ff6347"])(formatBackupDiff(result)));
+    console.log(gradient(["purple", "pink"])(t("diffsaved") + (await backup.saveDiff(result))));
+  } catch (err) {
+    console.error(gradient(["red", "darkred"])(t("differror") + err));
+  }
+  awaitenter(client);
+}
+
 export async function serverinfo(client: Client) {
   async function fetchGuildData(guildId: string) {
     try {
@@ -373,6 +400,8 @@ export const configOptions: any = {
   maxMessagesPerChannel: 0,
   jsonSave: true,
   jsonBeautify: true,
+  encrypt: false,
+  rollback: false,
   doNotBackup: ["bans", "emojis"],
 };
 
@@ -401,6 +430,12 @@ export async function configop(client: Client, functionName: string) {
     ${chalk.red("O:")} ${gradient(["purple", "pink"])(t('beautifuljson'))}
     ${chalk.red("V:")} ${configOptions.jsonBeautify ? chalk.green(t("yes")) : chalk.red(t("no"))
       }
+    ${chalk.red("O:")} ${gradient(["purple", "pink"])(t('encryptconfig'))}
+    ${chalk.red("V:")} ${configOptions.encrypt ? chalk.green(t("yes")) : chalk.red(t("no"))
+      }
+    ${chalk.red("O:")} ${gradient(["purple", "pink"])(t('rollbackconfig'))}
+    ${chalk.red("V:")} ${configOptions.rollback ? chalk.green(t("yes")) : chalk.red(t("no"))
+      }
     ${chalk.red("O:")} ${gradient(["purple", "pink"])(t('noclone'))}
     ${chalk.red("V:")} ${chalk.yellow(configOptions.doNotBackup.join(", "))}
     ${chalk.red("O:")} ${gradient(["purple", "pink"])(t('ignoretickets'))}
@@ -451,6 +486,12 @@ export async function configop(client: Client, functionName: string) {
           gradient(["purple", "pink"])(t("beautifuljson")
           )
         );
+        configOptions.encrypt = await yop(
+          gradient(["purple", "pink"])(t("encryptinput"))
+        );
+        configOptions.rollback = await yop(
+          gradient(["purple", "pink"])(t("rollbackinput"))
+        );
         configOptions.doNotBackup = (
           await espop(
             gradient(["purple", "pink"])(